@@ -18,6 +18,15 @@ export const getInput = jest
     return val
   })
 export const setOutput = jest.fn<typeof core.setOutput>()
+export const setSecret = jest.fn<typeof core.setSecret>()
 export const setFailed = jest.fn<typeof core.setFailed>()
 export const warning = jest.fn<typeof core.warning>()
 export const isDebug = jest.fn<typeof core.isDebug>().mockReturnValue(false)
+
+export const summary = {
+  addHeading: jest.fn<typeof core.summary.addHeading>().mockReturnThis(),
+  addRaw: jest.fn<typeof core.summary.addRaw>().mockReturnThis(),
+  addTable: jest.fn<typeof core.summary.addTable>().mockReturnThis(),
+  addDetails: jest.fn<typeof core.summary.addDetails>().mockReturnThis(),
+  write: jest.fn<typeof core.summary.write>().mockReturnThis()
+}
@@ -0,0 +1,12 @@
+/**
+ * Builds an installation of the given account, as listed by the API
+ */
+export const installation = (
+  id: number,
+  login: string,
+  type: 'Organization' | 'User' = 'Organization'
+) => ({
+  id,
+  account: { id: id * 100, login, type },
+  repository_selection: 'all' as const
+})
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for multiple app support, src/apps.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const {
+  buildAppBreakdown,
+  deduplicateInstallations,
+  parseAppCredentials,
+  parseAppIdentifier
+} = await import('../src/apps.js')
+
+describe('parseAppIdentifier', () => {
+  it('returns the app ID or the client ID', () => {
+    expect(parseAppIdentifier('app-id', ' 123 ', 'client-id', '')).toBe('123')
+    expect(
+      parseAppIdentifier('app-id', '', 'client-id', 'Iv23liAbCdEf12345678')
+    ).toBe('Iv23liAbCdEf12345678')
+    expect(
+      parseAppIdentifier('app-id', '', 'client-id', 'Iv1.0123456789abcdef')
+    ).toBe('Iv1.0123456789abcdef')
+  })
+
+  it('throws error unless exactly one is given', () => {
+    expect(() => parseAppIdentifier('app-id', '', 'client-id', '')).toThrow(
+      'Input required and not supplied: app-id or client-id'
+    )
+    expect(() =>
+      parseAppIdentifier('app-id', '1', 'client-id', 'Iv23liAbCdEf12345678')
+    ).toThrow('Set either app-id or client-id, not both')
+  })
+
+  it('throws error on malformed identifiers', () => {
+    expect(() => parseAppIdentifier('app-id', 'abc', 'client-id', '')).toThrow(
+      'Invalid app-id: expected a numeric app ID, got "abc"'
+    )
+    expect(() => parseAppIdentifier('app-id', '', 'client-id', '123')).toThrow(
+      'Invalid client-id: expected a client ID starting with Iv, got "123"'
+    )
+  })
+})
+
+describe('parseAppCredentials', () => {
+  it('parses a JSON list with passphrases', () => {
+    expect(
+      parseAppCredentials(
+        'apps',
+        '[{"name": "ci-bot", "app-id": 123, "private-key": "KEY", "private-key-passphrase": "secret"}]'
+      )
+    ).toEqual([
+      {
+        name: 'ci-bot',
+        appId: '123',
+        privateKey: 'KEY',
+        passphrase: 'secret',
+        keyInput: 'apps[1].private-key'
+      }
+    ])
+  })
+
+  it('parses a YAML list with block scalar keys', () => {
+    expect(
+      parseAppCredentials(
+        'apps',
+        ['- app-id: 456', '  private-key: |', '    line1', '    line2'].join(
+          '\n'
+        )
+      )
+    ).toEqual([
+      {
+        name: 'app-456',
+        appId: '456',
+        privateKey: 'line1\nline2\n',
+        passphrase: '',
+        keyInput: 'apps[1].private-key'
+      }
+    ])
+  })
+
+  it('throws error when the value is not a list', () => {
+    expect(() => parseAppCredentials('apps', 'app-id: 1')).toThrow(
+      'Invalid apps: expected a list of apps'
+    )
+    expect(() => parseAppCredentials('apps', '[')).toThrow('Invalid apps:')
+  })
+
+  it('accepts a client ID instead of the app ID', () => {
+    expect(
+      parseAppCredentials(
+        'apps',
+        '[{"client-id": "Iv23liAbCdEf12345678", "private-key": "KEY"}]'
+      )[0]
+    ).toMatchObject({
+      name: 'app-Iv23liAbCdEf12345678',
+      appId: 'Iv23liAbCdEf12345678'
+    })
+  })
+
+  it('throws error when an app is missing credentials', () => {
+    expect(() =>
+      parseAppCredentials('apps', '[{"app-id": 1, "private-key": "key"}, {}]')
+    ).toThrow('Invalid apps: app 2 needs a private-key')
+    expect(() =>
+      parseAppCredentials('apps', '[{"private-key": "key"}]')
+    ).toThrow(
+      'Input required and not supplied: apps[1].app-id or apps[1].client-id'
+    )
+  })
+})
+
+describe('deduplicateInstallations', () => {
+  it('keeps the first installation of every account', () => {
+    const installations = [
+      { id: 1, account: { login: 'acme', type: 'Organization' as const } },
+      { id: 2, account: { login: 'other', type: 'Organization' as const } },
+      { id: 3, account: { login: 'ACME', type: 'Organization' as const } }
+    ]
+
+    expect(
+      deduplicateInstallations(installations).map((inst) => inst.id)
+    ).toEqual([1, 2])
+  })
+})
+
+describe('buildAppBreakdown', () => {
+  it('records the organizations of every app', () => {
+    expect(
+      buildAppBreakdown([
+        {
+          app: { name: 'ci-bot', appId: '1', privateKey: 'key' },
+          organizations: ['acme', 'other']
+        },
+        {
+          app: { name: 'security-bot', appId: '2', privateKey: 'key' },
+          organizations: ['acme']
+        }
+      ])
+    ).toEqual([
+      { name: 'ci-bot', app_id: '1', organizations: ['acme', 'other'] },
+      { name: 'security-bot', app_id: '2', organizations: ['acme'] }
+    ])
+  })
+})
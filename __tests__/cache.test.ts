@@ -0,0 +1,157 @@
+/**
+ * Unit tests for the response cache, src/cache.ts
+ */
+import { jest } from '@jest/globals'
+import { mkdtempSync, readdirSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import * as core from '../__fixtures__/core.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const { ResponseCache, cachedRequest } = await import('../src/cache.js')
+
+const notModified = () =>
+  Object.assign(new Error('Not Modified'), { status: 304 })
+
+describe('ResponseCache', () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cache-'))
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('stores entries in the directory', async () => {
+    const cache = new ResponseCache({ directory, ttlSeconds: 60 }, 'app-1')
+
+    await cache.set('key', '"abc"', [1, 2], { link: '<next>; rel="next"' })
+
+    expect(readdirSync(directory)).toHaveLength(1)
+    await expect(cache.get('key')).resolves.toMatchObject({
+      etag: '"abc"',
+      data: [1, 2],
+      headers: { link: '<next>; rel="next"' }
+    })
+    await expect(cache.get('other')).resolves.toBeNull()
+  })
+
+  it('keeps namespaces apart', async () => {
+    await new ResponseCache({ directory, ttlSeconds: 60 }, 'app-1').set(
+      'key',
+      '"abc"',
+      []
+    )
+
+    await expect(
+      new ResponseCache({ directory, ttlSeconds: 60 }, 'app-2').get('key')
+    ).resolves.toBeNull()
+  })
+
+  it('ignores expired entries', async () => {
+    let now = Date.UTC(2026, 0, 1)
+    const cache = new ResponseCache(
+      { directory, ttlSeconds: 60 },
+      '',
+      () => now
+    )
+    await cache.set('key', '"abc"', [])
+
+    now += 59_000
+    await expect(cache.get('key')).resolves.not.toBeNull()
+    now += 1_000
+    await expect(cache.get('key')).resolves.toBeNull()
+  })
+})
+
+describe('cachedRequest', () => {
+  let directory: string
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    directory = mkdtempSync(join(tmpdir(), 'cache-'))
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('makes the request directly without a cache', async () => {
+    const request = jest.fn(async () => ({ data: [1] }))
+
+    await expect(cachedRequest(null, 'key', request)).resolves.toEqual({
+      data: [1]
+    })
+    expect(request).toHaveBeenCalledWith({})
+  })
+
+  it('revalidates cached responses with If-None-Match', async () => {
+    const cache = new ResponseCache({ directory, ttlSeconds: 60 })
+    const first = jest.fn(async () => ({
+      data: [1],
+      headers: { etag: '"abc"', link: '<next>; rel="next"' }
+    }))
+    await cachedRequest(cache, 'key', first)
+
+    expect(first).toHaveBeenCalledWith({})
+    expect(cache.misses).toBe(1)
+    expect(cache.allHits).toBe(false)
+
+    const second = jest.fn(async () => {
+      throw notModified()
+    })
+    await expect(cachedRequest(cache, 'key', second)).resolves.toEqual({
+      data: [1],
+      headers: { link: '<next>; rel="next"' }
+    })
+    expect(second).toHaveBeenCalledWith({ 'if-none-match': '"abc"' })
+    expect(cache.hits).toBe(1)
+  })
+
+  it('replaces cached responses that changed', async () => {
+    const cache = new ResponseCache({ directory, ttlSeconds: 60 })
+    await cache.set('key', '"old"', [1])
+
+    await expect(
+      cachedRequest(cache, 'key', async () => ({
+        data: [2],
+        headers: { etag: '"new"' }
+      }))
+    ).resolves.toMatchObject({ data: [2] })
+    await expect(cache.get('key')).resolves.toMatchObject({
+      etag: '"new"',
+      data: [2]
+    })
+  })
+
+  it('reports every request served from the cache as a hit', async () => {
+    const cache = new ResponseCache({ directory, ttlSeconds: 60 })
+    await cache.set('page1', '"a"', [1])
+    await cache.set('page2', '"b"', [2])
+
+    for (const key of ['page1', 'page2']) {
+      await cachedRequest(cache, key, async () => {
+        throw notModified()
+      })
+    }
+
+    expect(cache.allHits).toBe(true)
+  })
+
+  it('rethrows other errors', async () => {
+    const cache = new ResponseCache({ directory, ttlSeconds: 60 })
+    const failure = Object.assign(new Error('Server Error'), { status: 500 })
+
+    await expect(
+      cachedRequest(cache, 'key', async () => {
+        throw failure
+      })
+    ).rejects.toBe(failure)
+  })
+})
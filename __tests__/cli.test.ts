@@ -0,0 +1,213 @@
+/**
+ * Unit tests for the command line interface, src/cli.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const { formatTable, parseCliArgs, runCli, USAGE } =
+  await import('../src/cli.js')
+const { createStreamLogger } = await import('../src/logger.js')
+
+const credentials = ['--app-id', '12345', '--private-key-file', 'key.pem']
+
+describe('parseCliArgs', () => {
+  it('applies the defaults', () => {
+    const options = parseCliArgs(credentials, {})
+
+    expect(options).toMatchObject({
+      help: false,
+      verbose: false,
+      format: 'json',
+      privateKeyFile: 'key.pem',
+      list: {
+        appId: '12345',
+        client: { baseUrl: 'https://api.github.com', caCertificate: '' },
+        pagination: { perPage: 100, maxInstallations: 0 },
+        filter: {
+          include: [],
+          exclude: [],
+          accountTypes: ['Organization'],
+          suspended: 'exclude'
+        }
+      }
+    })
+  })
+
+  it('parses the filter and output flags', () => {
+    const options = parseCliArgs(
+      [
+        ...credentials,
+        '--include',
+        'acme-*',
+        '--include',
+        'other,/^team-/',
+        '--exclude',
+        'acme-sandbox',
+        '--account-types',
+        'organization,user',
+        '--suspended',
+        'include',
+        '--per-page',
+        '50',
+        '--format',
+        'table'
+      ],
+      {}
+    )
+
+    expect(options.format).toBe('table')
+    expect(options.list.pagination?.perPage).toBe(50)
+    expect(options.list.filter).toEqual({
+      include: ['acme-*', 'other', '/^team-/'],
+      exclude: ['acme-sandbox'],
+      accountTypes: ['Organization', 'User'],
+      suspended: 'include'
+    })
+  })
+
+  it('falls back to environment variables', () => {
+    const options = parseCliArgs([], {
+      GITHUB_APP_ID: '999',
+      GITHUB_APP_PRIVATE_KEY: 'key',
+      GITHUB_API_URL: 'https://ghes.example.com/api/v3/'
+    })
+
+    expect(options.list.appId).toBe('999')
+    expect(options.privateKeyFile).toBe('')
+    expect(options.list.client?.baseUrl).toBe('https://ghes.example.com/api/v3')
+  })
+
+  it('accepts a client ID instead of the app ID', () => {
+    expect(
+      parseCliArgs(['--client-id', 'Iv23liAbCdEf12345678'], {
+        GITHUB_APP_ID: '999',
+        GITHUB_APP_PRIVATE_KEY: 'key'
+      }).list.appId
+    ).toBe('Iv23liAbCdEf12345678')
+    expect(
+      parseCliArgs([], {
+        GITHUB_APP_CLIENT_ID: 'Iv23liAbCdEf12345678',
+        GITHUB_APP_PRIVATE_KEY: 'key'
+      }).list.appId
+    ).toBe('Iv23liAbCdEf12345678')
+  })
+
+  it('throws error when both the app ID and the client ID are given', () => {
+    expect(() =>
+      parseCliArgs([...credentials, '--client-id', 'Iv23liAbCdEf12345678'], {})
+    ).toThrow('Set either --app-id or --client-id, not both')
+  })
+
+  it('throws error when the credentials are missing', () => {
+    expect(() => parseCliArgs([], {})).toThrow('Missing --app-id')
+    expect(() => parseCliArgs(['--app-id', '1'], {})).toThrow(
+      'Missing --private-key-file'
+    )
+  })
+
+  it('throws error on unknown options and invalid values', () => {
+    expect(() => parseCliArgs([...credentials, '--nope'], {})).toThrow(
+      "Unknown option '--nope'"
+    )
+    expect(() => parseCliArgs([...credentials, '--format', 'xml'], {})).toThrow(
+      'Invalid --format: "xml"'
+    )
+    expect(() => parseCliArgs([...credentials, '--per-page', '0'], {})).toThrow(
+      'Invalid --per-page: "0"'
+    )
+  })
+})
+
+describe('formatTable', () => {
+  it('aligns the columns', () => {
+    expect(
+      formatTable([
+        { id: 1, account: { login: 'acme', type: 'Organization' } },
+        {
+          id: 12345,
+          account: { login: 'legacy-org', type: 'Organization' },
+          suspended_at: '2024-05-02T12:00:00Z'
+        }
+      ])
+    ).toBe(
+      [
+        'ORGANIZATION  INSTALLATION ID  ACCOUNT TYPE  SUSPENDED',
+        'acme          1                Organization  no',
+        'legacy-org    12345            Organization  yes'
+      ].join('\n')
+    )
+  })
+})
+
+describe('runCli', () => {
+  const io = () => ({
+    stdout: jest.fn<(text: string) => void>(),
+    stderr: jest.fn<(text: string) => void>()
+  })
+
+  it('prints the usage with --help', async () => {
+    const streams = io()
+
+    await expect(runCli(['--help'], streams, {})).resolves.toBe(0)
+    expect(streams.stdout).toHaveBeenCalledWith(USAGE)
+  })
+
+  it('prints the error and a hint on invalid input', async () => {
+    const streams = io()
+
+    await expect(runCli([], streams, {})).resolves.toBe(1)
+    expect(streams.stderr).toHaveBeenCalledWith(
+      'Error: Invalid input: Missing --app-id or --client-id (or GITHUB_APP_ID or GITHUB_APP_CLIENT_ID)'
+    )
+    expect(streams.stderr).toHaveBeenCalledWith(
+      'Hint: Check the action inputs or command line options that were given.'
+    )
+    expect(streams.stderr).toHaveBeenCalledWith('Run with --help for usage.')
+    expect(streams.stdout).not.toHaveBeenCalled()
+  })
+
+  it('fails when the private key file cannot be read', async () => {
+    const streams = io()
+
+    await expect(
+      runCli(
+        ['--app-id', '1', '--private-key-file', 'missing.pem'],
+        streams,
+        {}
+      )
+    ).resolves.toBe(1)
+    expect(streams.stderr).toHaveBeenCalledWith(
+      expect.stringContaining('Invalid --private-key-file')
+    )
+  })
+})
+
+describe('createStreamLogger', () => {
+  it('only writes warnings unless verbose', () => {
+    const write = jest.fn<(line: string) => void>()
+    const quiet = createStreamLogger(write)
+
+    quiet.info('info')
+    quiet.debug('debug')
+    quiet.warning('careful')
+
+    expect(write.mock.calls).toEqual([['warning: careful']])
+    expect(quiet.isDebug()).toBe(false)
+  })
+
+  it('writes every message when verbose', () => {
+    const write = jest.fn<(line: string) => void>()
+    const verbose = createStreamLogger(write, true)
+
+    verbose.info('info')
+    verbose.debug('debug')
+
+    expect(write.mock.calls).toEqual([['info'], ['debug: debug']])
+    expect(verbose.isDebug()).toBe(true)
+  })
+})
@@ -0,0 +1,48 @@
+/**
+ * Unit tests for the concurrency helper, src/concurrency.ts
+ */
+import { mapConcurrent } from '../src/concurrency.js'
+
+// Import fast-check for property-based testing
+const fc = await import('fast-check')
+
+describe('mapConcurrent', () => {
+  it('keeps the order of the items', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.integer({ min: 0, max: 5 }), { maxLength: 20 }),
+        fc.integer({ min: 1, max: 8 }),
+        async (delays, limit) => {
+          const results = await mapConcurrent(
+            delays,
+            limit,
+            async (delay, index) => {
+              await new Promise((resolve) => setTimeout(resolve, delay))
+              return index
+            }
+          )
+
+          expect(results).toEqual(delays.map((_, index) => index))
+        }
+      ),
+      { numRuns: 20 }
+    )
+  })
+
+  it('runs at least one call at a time', async () => {
+    await expect(
+      mapConcurrent([1, 2], 0, async (item) => item * 2)
+    ).resolves.toEqual([2, 4])
+  })
+
+  it('rejects with the first error', async () => {
+    await expect(
+      mapConcurrent([1, 2, 3], 2, async (item) => {
+        if (item === 2) {
+          throw new Error('failed')
+        }
+        return item
+      })
+    ).rejects.toThrow('failed')
+  })
+})
@@ -0,0 +1,195 @@
+/**
+ * Unit tests for the dispatch fan-out, src/dispatch.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import { installation } from '../__fixtures__/installations.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const {
+  DEFAULT_DISPATCH_OPTIONS,
+  dispatchToOrganizations,
+  parsePayloadTemplate,
+  renderPayload,
+  renderTemplate,
+  templateFields,
+  validateWorkflowInputs
+} = await import('../src/dispatch.js')
+
+// Builds an installation client recording the dispatches it sends
+const client = () => ({
+  rest: {
+    repos: { createDispatchEvent: jest.fn(async () => ({ status: 204 })) },
+    actions: { createWorkflowDispatch: jest.fn(async () => ({ status: 204 })) }
+  }
+})
+
+describe('templates', () => {
+  const fields = templateFields(installation(1, 'acme'))
+
+  it('lists the installation fields', () => {
+    expect(fields).toEqual({
+      org: 'acme',
+      installation_id: '1',
+      account_id: '100',
+      account_type: 'Organization',
+      repository_selection: 'all'
+    })
+  })
+
+  it('replaces known placeholders only', () => {
+    expect(renderTemplate('{org}/.github', fields)).toBe('acme/.github')
+    expect(renderTemplate('{org}-{unknown}', fields)).toBe('acme-{unknown}')
+  })
+
+  it('renders every string of the payload', () => {
+    expect(
+      renderPayload(
+        { org: '{org}', ids: ['{installation_id}'], nested: { n: 1 } },
+        fields
+      )
+    ).toEqual({ org: 'acme', ids: ['1'], nested: { n: 1 } })
+  })
+
+  it('parses the payload template', () => {
+    expect(parsePayloadTemplate('dispatch-payload', '')).toEqual({})
+    expect(parsePayloadTemplate('dispatch-payload', '{"org":"{org}"}')).toEqual(
+      { org: '{org}' }
+    )
+    expect(() => parsePayloadTemplate('dispatch-payload', '[1]')).toThrow(
+      'Invalid dispatch-payload: expected a JSON object'
+    )
+    expect(() => parsePayloadTemplate('dispatch-payload', '{')).toThrow(
+      'Invalid dispatch-payload'
+    )
+  })
+
+  it('accepts only strings as workflow inputs', () => {
+    expect(() =>
+      validateWorkflowInputs('dispatch-payload', { org: '{org}' })
+    ).not.toThrow()
+    expect(() =>
+      validateWorkflowInputs('dispatch-payload', { org: '{org}', ids: [1] })
+    ).toThrow(
+      'Invalid dispatch-payload: workflow inputs must be strings, got other values for ids'
+    )
+  })
+})
+
+describe('dispatchToOrganizations', () => {
+  const options = {
+    ...DEFAULT_DISPATCH_OPTIONS,
+    repository: '{org}/.github',
+    eventType: 'onboard',
+    payload: { organization: '{org}' }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('sends a repository dispatch as every installation', async () => {
+    const clients = { 1: client(), 2: client() }
+    const createClient = jest.fn(
+      async (id: number) => clients[id as keyof typeof clients]
+    )
+
+    const results = await dispatchToOrganizations(
+      [installation(1, 'acme'), installation(2, 'other')],
+      createClient,
+      options
+    )
+
+    expect(clients[2].rest.repos.createDispatchEvent).toHaveBeenCalledWith({
+      owner: 'other',
+      repo: '.github',
+      event_type: 'onboard',
+      client_payload: { organization: 'other' }
+    })
+    expect(results.map((result) => result.status)).toEqual(['sent', 'sent'])
+    expect(core.info).toHaveBeenCalledWith('Sent 2 of 2 dispatches')
+  })
+
+  it('sends a workflow dispatch when a workflow is set', async () => {
+    const instance = client()
+
+    await dispatchToOrganizations(
+      [installation(1, 'acme')],
+      async () => instance,
+      { ...options, workflow: 'onboard.yml', ref: 'trunk' }
+    )
+
+    expect(instance.rest.actions.createWorkflowDispatch).toHaveBeenCalledWith({
+      owner: 'acme',
+      repo: '.github',
+      workflow_id: 'onboard.yml',
+      ref: 'trunk',
+      inputs: { organization: 'acme' }
+    })
+    expect(instance.rest.repos.createDispatchEvent).not.toHaveBeenCalled()
+  })
+
+  it('only logs the dispatches in a dry run', async () => {
+    const createClient = jest.fn(async () => client())
+
+    const results = await dispatchToOrganizations(
+      [installation(1, 'acme')],
+      createClient,
+      { ...options, dryRun: true }
+    )
+
+    expect(createClient).not.toHaveBeenCalled()
+    expect(results).toEqual([
+      {
+        organization: 'acme',
+        repository: 'acme/.github',
+        event: 'repository_dispatch',
+        status: 'dry-run',
+        payload: { organization: 'acme' },
+        message: null
+      }
+    ])
+    expect(core.info).toHaveBeenCalledWith(
+      'Dry run: would send repository_dispatch to acme/.github with {"organization":"acme"}'
+    )
+  })
+
+  it('reports failed dispatches without stopping the others', async () => {
+    const working = client()
+    const failing = client()
+    failing.rest.repos.createDispatchEvent.mockRejectedValueOnce(
+      new Error('Not Found')
+    )
+
+    const results = await dispatchToOrganizations(
+      [installation(1, 'acme'), installation(2, 'other')],
+      async (id) => (id === 1 ? failing : working),
+      options
+    )
+
+    expect(results.map((result) => [result.status, result.message])).toEqual([
+      ['failed', 'Not Found'],
+      ['sent', null]
+    ])
+    expect(core.warning).toHaveBeenCalledWith(
+      'Could not send repository_dispatch to acme/.github: Not Found'
+    )
+  })
+
+  it('rejects repositories that are not owner/repo names', async () => {
+    const results = await dispatchToOrganizations(
+      [installation(1, 'acme')],
+      async () => client(),
+      { ...options, repository: '.github' }
+    )
+
+    expect(results[0]).toMatchObject({
+      status: 'failed',
+      message: 'Invalid repository: .github'
+    })
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for organization details, src/enrich.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import { installation } from '../__fixtures__/installations.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const { getOrganizationDetails, toOrganizationDetails } =
+  await import('../src/enrich.js')
+
+const organization = {
+  name: 'Acme Corp',
+  plan: { name: 'enterprise' },
+  public_repos: 3,
+  total_private_repos: 12,
+  owned_private_repos: 10,
+  two_factor_requirement_enabled: true,
+  created_at: '2015-06-01T00:00:00Z',
+  default_repository_permission: 'read'
+}
+
+describe('toOrganizationDetails', () => {
+  it('extracts the organization details', () => {
+    expect(toOrganizationDetails(organization)).toEqual({
+      name: 'Acme Corp',
+      plan: 'enterprise',
+      public_repos: 3,
+      private_repos: 12,
+      two_factor_requirement_enabled: true,
+      created_at: '2015-06-01T00:00:00Z',
+      default_repository_permission: 'read'
+    })
+  })
+
+  it('sets fields the installation cannot read to null', () => {
+    expect(toOrganizationDetails({ public_repos: 1 })).toEqual({
+      name: null,
+      plan: null,
+      public_repos: 1,
+      private_repos: null,
+      two_factor_requirement_enabled: null,
+      created_at: null,
+      default_repository_permission: null
+    })
+  })
+})
+
+describe('getOrganizationDetails', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('fetches every organization as its installation', async () => {
+    const get = jest.fn(async ({ org }: { org: string }) => ({
+      data: { ...organization, name: org.toUpperCase() }
+    }))
+    const createClient = jest.fn(async () => ({ rest: { orgs: { get } } }))
+
+    const details = await getOrganizationDetails(
+      [installation(1, 'acme'), installation(2, 'other')],
+      createClient
+    )
+
+    expect(createClient).toHaveBeenCalledWith(1)
+    expect(createClient).toHaveBeenCalledWith(2)
+    expect(get).toHaveBeenCalledWith({ org: 'acme' })
+    expect(Object.keys(details)).toEqual(['acme', 'other'])
+    expect(details.other?.name).toBe('OTHER')
+    expect(core.info).toHaveBeenCalledWith(
+      'Fetched details of 2 of 2 organizations'
+    )
+  })
+
+  it('skips user accounts', async () => {
+    const createClient = jest.fn(async () => ({
+      rest: { orgs: { get: async () => ({ data: organization }) } }
+    }))
+
+    const details = await getOrganizationDetails(
+      [installation(1, 'acme'), installation(2, 'octocat', 'User')],
+      createClient
+    )
+
+    expect(Object.keys(details)).toEqual(['acme'])
+    expect(createClient).toHaveBeenCalledTimes(1)
+  })
+
+  it('warns and continues when an organization cannot be read', async () => {
+    const createClient = jest.fn(async (installationId: number) => ({
+      rest: {
+        orgs: {
+          get: async () => {
+            if (installationId === 1) {
+              throw new Error('Resource protected by organization SAML')
+            }
+            return { data: organization }
+          }
+        }
+      }
+    }))
+
+    const details = await getOrganizationDetails(
+      [installation(1, 'acme'), installation(2, 'other')],
+      createClient
+    )
+
+    expect(details.acme).toBeNull()
+    expect(details.other).not.toBeNull()
+    expect(core.warning).toHaveBeenCalledWith(
+      'Could not fetch details of acme: Resource protected by organization SAML'
+    )
+  })
+
+  it('limits the number of requests in flight', async () => {
+    let active = 0
+    let peak = 0
+    const createClient = async () => ({
+      rest: {
+        orgs: {
+          get: async () => {
+            active++
+            peak = Math.max(peak, active)
+            await new Promise((resolve) => setTimeout(resolve, 5))
+            active--
+            return { data: organization }
+          }
+        }
+      }
+    })
+
+    await getOrganizationDetails(
+      Array.from({ length: 7 }, (_, index) =>
+        installation(index + 1, `org${index + 1}`)
+      ),
+      createClient,
+      3
+    )
+
+    expect(peak).toBe(3)
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for the error taxonomy, src/errors.ts
+ */
+import { ActionError, InputError, classifyError } from '../src/errors.js'
+
+// Import RequestError to build realistic API failures
+const { RequestError } = await import('octokit')
+
+// Builds an Octokit RequestError with the given status, message and headers
+const requestError = (
+  status: number,
+  message: string,
+  headers: Record<string, string> = {}
+) =>
+  new RequestError(message, status, {
+    request: { method: 'GET', url: 'https://api.github.com/app', headers: {} },
+    response: {
+      status,
+      url: 'https://api.github.com/app',
+      headers,
+      data: { message },
+      retryCount: 0
+    }
+  })
+
+describe('classifyError', () => {
+  it('classifies bad credentials and clock skew', () => {
+    expect(
+      classifyError(requestError(401, 'A JSON web token could not be decoded'))
+        .code
+    ).toBe('bad-credentials')
+    expect(
+      classifyError(
+        requestError(
+          401,
+          "'Expiration time' claim ('exp') is too far in the future"
+        )
+      ).code
+    ).toBe('clock-skew')
+  })
+
+  it('classifies an unknown app', () => {
+    const result = classifyError(requestError(404, 'Integration not found'))
+
+    expect(result.code).toBe('app-not-found')
+    expect(result.message).toBe('GitHub App not found: Integration not found')
+    expect(result.hint).toContain('app ID')
+  })
+
+  it('classifies rate limits and SSO enforcement', () => {
+    expect(
+      classifyError(
+        requestError(403, 'API rate limit exceeded', {
+          'x-ratelimit-remaining': '0'
+        })
+      ).code
+    ).toBe('rate-limited')
+    expect(
+      classifyError(
+        requestError(429, 'You have exceeded a secondary rate limit')
+      ).code
+    ).toBe('rate-limited')
+    expect(
+      classifyError(
+        requestError(403, 'Resource protected by organization SAML', {
+          'x-github-sso': 'required; url=https://github.com/orgs/acme/sso'
+        })
+      ).code
+    ).toBe('sso-required')
+    expect(classifyError(requestError(403, 'Forbidden')).code).toBe('forbidden')
+  })
+
+  it('classifies network errors and server errors', () => {
+    const networkError = new RequestError('getaddrinfo ENOTFOUND', 500, {
+      request: { method: 'GET', url: 'https://api.github.com/app', headers: {} }
+    })
+
+    expect(classifyError(networkError).code).toBe('network-error')
+    expect(classifyError(requestError(502, 'Bad Gateway')).code).toBe(
+      'api-error'
+    )
+  })
+
+  it('classifies private key parse failures', () => {
+    expect(
+      classifyError(new Error('error:1E08010C:DECODER routines::unsupported'))
+        .code
+    ).toBe('invalid-private-key')
+  })
+
+  it('uses the code of action errors and wrapped causes', () => {
+    expect(classifyError(new InputError('Invalid per-page')).code).toBe(
+      'invalid-input'
+    )
+    expect(
+      classifyError(new ActionError('Too many', 'max-installations-exceeded'))
+        .code
+    ).toBe('max-installations-exceeded')
+    expect(
+      classifyError(
+        new Error('Failed to create installation token for acme: Forbidden', {
+          cause: requestError(403, 'Forbidden')
+        })
+      ).code
+    ).toBe('forbidden')
+  })
+
+  it('falls back to unknown-error for other values', () => {
+    expect(classifyError('boom')).toEqual({
+      code: 'unknown-error',
+      message: 'Unexpected error: boom',
+      hint: 'Re-run with debug logging enabled for more details.'
+    })
+  })
+})
@@ -0,0 +1,141 @@
+/**
+ * Unit tests for the installation event mode, src/events.ts
+ */
+import { jest } from '@jest/globals'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import * as core from '../__fixtures__/core.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const { parseInstallationEvent, readInstallationEvent } =
+  await import('../src/events.js')
+
+const installation = {
+  id: 42,
+  account: { login: 'acme', type: 'Organization' as const }
+}
+
+describe('parseInstallationEvent', () => {
+  it('reads an installation event', () => {
+    expect(
+      parseInstallationEvent('installation', {
+        action: 'created',
+        installation,
+        repositories: [{ full_name: 'acme/api' }]
+      })
+    ).toEqual({
+      event: 'installation',
+      action: 'created',
+      installation,
+      organization: 'acme',
+      repositoriesAdded: ['acme/api'],
+      repositoriesRemoved: []
+    })
+  })
+
+  it('reports the repositories of a deleted installation as removed', () => {
+    expect(
+      parseInstallationEvent('installation', {
+        action: 'deleted',
+        installation,
+        repositories: [{ full_name: 'acme/api' }]
+      })
+    ).toMatchObject({
+      repositoriesAdded: [],
+      repositoriesRemoved: ['acme/api']
+    })
+  })
+
+  it('reads an installation_repositories event', () => {
+    expect(
+      parseInstallationEvent('installation_repositories', {
+        action: 'added',
+        installation,
+        repositories_added: [{ full_name: 'acme/web' }],
+        repositories_removed: [{ full_name: 'acme/old' }]
+      })
+    ).toMatchObject({
+      event: 'installation_repositories',
+      action: 'added',
+      repositoriesAdded: ['acme/web'],
+      repositoriesRemoved: ['acme/old']
+    })
+  })
+
+  it('unwraps installation events relayed by repository_dispatch', () => {
+    expect(
+      parseInstallationEvent('repository_dispatch', {
+        action: 'installation',
+        client_payload: { action: 'suspend', installation }
+      })
+    ).toMatchObject({ event: 'installation', action: 'suspend' })
+    expect(
+      parseInstallationEvent('repository_dispatch', {
+        action: 'relay',
+        client_payload: {
+          event: 'installation',
+          payload: { action: 'unsuspend', installation }
+        }
+      })
+    ).toMatchObject({ event: 'installation', action: 'unsuspend' })
+  })
+
+  it('returns null for other events', () => {
+    expect(parseInstallationEvent('push', {})).toBeNull()
+    expect(
+      parseInstallationEvent('repository_dispatch', { action: 'deploy' })
+    ).toBeNull()
+  })
+
+  it('throws error when the payload has no installation', () => {
+    expect(() =>
+      parseInstallationEvent('installation', { action: 'created' })
+    ).toThrow('Invalid installation event: the payload has no installation')
+  })
+})
+
+describe('readInstallationEvent', () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'event-'))
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('reads the payload from the event path', async () => {
+    const path = join(directory, 'event.json')
+    writeFileSync(
+      path,
+      JSON.stringify({ action: 'new_permissions_accepted', installation })
+    )
+
+    await expect(
+      readInstallationEvent('installation', path)
+    ).resolves.toMatchObject({
+      action: 'new_permissions_accepted',
+      organization: 'acme'
+    })
+  })
+
+  it('does not read the payload of other events', async () => {
+    await expect(
+      readInstallationEvent('schedule', join(directory, 'missing.json'))
+    ).resolves.toBeNull()
+  })
+
+  it('throws error when the payload cannot be read', async () => {
+    await expect(
+      readInstallationEvent('installation', join(directory, 'missing.json'))
+    ).rejects.toThrow(
+      'Cannot read the installation event payload from GITHUB_EVENT_PATH'
+    )
+  })
+})
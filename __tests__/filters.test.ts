@@ -0,0 +1,193 @@
+/**
+ * Unit tests for installation filtering, src/filters.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const {
+  accountLogin,
+  accountType,
+  compilePattern,
+  filterInstallations,
+  getSkipReason,
+  isSuspended,
+  DEFAULT_FILTER
+} = await import('../src/filters.js')
+
+// Import fast-check for property-based testing
+const fc = await import('fast-check')
+
+const installations = [
+  { id: 1, account: { login: 'acme-platform', type: 'Organization' as const } },
+  { id: 2, account: { login: 'acme-sandbox', type: 'Organization' as const } },
+  { id: 3, account: { login: 'other-org', type: 'Organization' as const } },
+  { id: 4, account: { login: 'octocat', type: 'User' as const } },
+  { id: 5, account: { slug: 'acme-enterprise' }, target_type: 'Enterprise' },
+  { id: 6, account: null },
+  {
+    id: 7,
+    account: { login: 'acme-legacy', type: 'Organization' as const },
+    suspended_at: '2024-05-02T12:00:00Z',
+    suspended_by: { login: 'octocat' }
+  }
+]
+
+const logins = (result: { id: number }[]) =>
+  result.map((inst) => accountLogin(inst as (typeof installations)[number]))
+
+describe('accountLogin and accountType', () => {
+  it('falls back to the enterprise slug and target type', () => {
+    expect(accountLogin(installations[4])).toBe('acme-enterprise')
+    expect(accountType(installations[4])).toBe('Enterprise')
+  })
+
+  it('returns empty strings for installations without account', () => {
+    expect(accountLogin(installations[5])).toBe('')
+    expect(accountType(installations[5])).toBe('')
+  })
+})
+
+describe('compilePattern', () => {
+  it('matches globs case-insensitively', () => {
+    expect(compilePattern('acme-*').test('ACME-platform')).toBe(true)
+    expect(compilePattern('acme-?').test('acme-ab')).toBe(false)
+    expect(compilePattern('acme.io').test('acmexio')).toBe(false)
+  })
+
+  it('treats slash-wrapped patterns as regular expressions', () => {
+    const regex = compilePattern('/^acme-(platform|infra)$/')
+
+    expect(regex.test('acme-platform')).toBe(true)
+    expect(regex.test('ACME-platform')).toBe(false)
+    expect(compilePattern('/^ACME/i').test('acme-platform')).toBe(true)
+  })
+
+  it('throws error for invalid regular expressions', () => {
+    expect(() => compilePattern('/[/')).toThrow('Invalid pattern /[/')
+  })
+
+  it('matches every login literally when no wildcard is used', () => {
+    fc.assert(
+      fc.property(fc.string({ minLength: 1, maxLength: 39 }), (login) => {
+        expect(compilePattern(login.replace(/[*?]/g, '')).test(login)).toBe(
+          !/[*?]/.test(login)
+        )
+      }),
+      { numRuns: 100 }
+    )
+  })
+})
+
+describe('filterInstallations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('keeps only organizations by default', () => {
+    expect(logins(filterInstallations(installations))).toEqual([
+      'acme-platform',
+      'acme-sandbox',
+      'other-org'
+    ])
+  })
+
+  it('applies include and exclude patterns', () => {
+    const result = filterInstallations(installations, {
+      ...DEFAULT_FILTER,
+      include: ['acme-*'],
+      exclude: ['*-sandbox']
+    })
+
+    expect(logins(result)).toEqual(['acme-platform'])
+    expect(core.debug).toHaveBeenCalledWith(
+      'Skipping acme-sandbox: matches exclude pattern *-sandbox'
+    )
+    expect(core.debug).toHaveBeenCalledWith(
+      'Skipping other-org: does not match any include pattern'
+    )
+  })
+
+  it('selects the configured account types', () => {
+    const result = filterInstallations(installations, {
+      ...DEFAULT_FILTER,
+      accountTypes: ['User', 'Enterprise']
+    })
+
+    expect(logins(result)).toEqual(['octocat', 'acme-enterprise'])
+    expect(core.debug).toHaveBeenCalledWith(
+      'Skipping acme-platform: account type Organization is not in account-types'
+    )
+    expect(core.debug).toHaveBeenCalledWith(
+      'Skipping installation 6: no account'
+    )
+  })
+
+  it('excludes suspended installations by default', () => {
+    expect(logins(filterInstallations(installations))).not.toContain(
+      'acme-legacy'
+    )
+    expect(core.debug).toHaveBeenCalledWith(
+      'Skipping acme-legacy: installation is suspended'
+    )
+  })
+
+  it('includes suspended installations when requested', () => {
+    const result = filterInstallations(installations, {
+      ...DEFAULT_FILTER,
+      suspended: 'include'
+    })
+
+    expect(logins(result)).toEqual([
+      'acme-platform',
+      'acme-sandbox',
+      'other-org',
+      'acme-legacy'
+    ])
+  })
+
+  it('lists only suspended installations when requested', () => {
+    const result = filterInstallations(installations, {
+      ...DEFAULT_FILTER,
+      suspended: 'only'
+    })
+
+    expect(logins(result)).toEqual(['acme-legacy'])
+    expect(result.every(isSuspended)).toBe(true)
+  })
+
+  it('fails on invalid patterns even without installations', () => {
+    expect(() =>
+      filterInstallations([], { ...DEFAULT_FILTER, exclude: ['/(/'] })
+    ).toThrow('Invalid pattern /(/')
+  })
+})
+
+describe('getSkipReason', () => {
+  it('explains why an installation is skipped', () => {
+    const filter = { ...DEFAULT_FILTER, exclude: ['other-*'] }
+
+    expect(installations.map((inst) => getSkipReason(inst, filter))).toEqual([
+      null,
+      null,
+      'matches exclude pattern other-*',
+      'account type User is not in account-types',
+      'account type Enterprise is not in account-types',
+      'no account',
+      'installation is suspended'
+    ])
+  })
+
+  it('reports logins that do not match an include pattern', () => {
+    expect(
+      getSkipReason(installations[0], {
+        ...DEFAULT_FILTER,
+        include: ['other-*']
+      })
+    ).toBe('does not match any include pattern')
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the offline replay mode, src/fixture.ts
+ */
+import { jest } from '@jest/globals'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import * as core from '../__fixtures__/core.js'
+import { installation } from '../__fixtures__/installations.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const { createFixtureClient, readFixture } = await import('../src/fixture.js')
+
+describe('readFixture', () => {
+  let directory: string
+
+  const write = (content: unknown) => {
+    const path = join(directory, 'fixture.json')
+    writeFileSync(path, JSON.stringify(content))
+    return path
+  }
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'fixture-'))
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('reads a plain array of installations', async () => {
+    const fixture = await readFixture(write([installation(1, 'acme')]))
+
+    expect(fixture.installations).toEqual([installation(1, 'acme')])
+    expect(fixture.app).toMatchObject({ id: 1, slug: 'fixture' })
+    expect(fixture.repositories).toEqual({})
+  })
+
+  it('reads the app, repositories and organizations', async () => {
+    const fixture = await readFixture(
+      write({
+        app: { id: 42, slug: 'ci-bot' },
+        installations: [installation(1, 'Acme')],
+        repositories: { Acme: ['Acme/api', { full_name: 'Acme/web' }] },
+        organizations: { Acme: { name: 'Acme Corp' } }
+      })
+    )
+
+    expect(fixture.app).toMatchObject({
+      id: 42,
+      slug: 'ci-bot',
+      name: 'Fixture'
+    })
+    expect(fixture.repositories).toEqual({
+      acme: [{ full_name: 'Acme/api' }, { full_name: 'Acme/web' }]
+    })
+    expect(fixture.organizations).toEqual({ acme: { name: 'Acme Corp' } })
+  })
+
+  it('throws error on missing or invalid files', async () => {
+    await expect(readFixture(join(directory, 'missing.json'))).rejects.toThrow(
+      'no such file or directory'
+    )
+    await expect(readFixture(write({ installations: [{}] }))).rejects.toThrow(
+      'Invalid fixture-file: expected an array of installations'
+    )
+    await expect(
+      readFixture(
+        write({ installations: [], repositories: { acme: 'acme/api' } })
+      )
+    ).rejects.toThrow('the repositories of acme must be an array')
+  })
+})
+
+describe('createFixtureClient', () => {
+  const fixture = {
+    app: { id: 42, slug: 'ci-bot', name: 'CI Bot', owner: { login: 'acme' } },
+    installations: [1, 2, 3].map((id) => installation(id, `org${id}`)),
+    repositories: { org2: [{ full_name: 'org2/api' }] },
+    organizations: { org1: { name: 'Org One' } }
+  }
+
+  it('serves the app metadata', async () => {
+    const { data } =
+      await createFixtureClient(fixture).rest.apps.getAuthenticated()
+
+    expect(data).toMatchObject({
+      id: 42,
+      slug: 'ci-bot',
+      installations_count: 3
+    })
+  })
+
+  it('paginates the installations', async () => {
+    const client = createFixtureClient(fixture)
+
+    const first = await client.rest.apps.listInstallations({
+      per_page: 2,
+      page: 1
+    })
+    const second = await client.rest.apps.listInstallations({
+      per_page: 2,
+      page: 2
+    })
+
+    expect(first.data.map((entry) => entry.id)).toEqual([1, 2])
+    expect(first.headers.link).toContain('rel="next"')
+    expect(second.data.map((entry) => entry.id)).toEqual([3])
+    expect(second.headers.link).toBeUndefined()
+  })
+
+  it('serves the repositories of the installation', async () => {
+    const { data } = await createFixtureClient(
+      fixture,
+      2
+    ).rest.apps.listReposAccessibleToInstallation()
+
+    expect(data).toEqual({
+      total_count: 1,
+      repositories: [{ full_name: 'org2/api' }]
+    })
+  })
+
+  it('serves organizations and answers 404 outside the fixture', async () => {
+    const client = createFixtureClient(fixture, 1)
+
+    await expect(client.rest.orgs.get({ org: 'ORG1' })).resolves.toMatchObject({
+      data: { name: 'Org One' }
+    })
+    await expect(client.rest.orgs.get({ org: 'org3' })).rejects.toMatchObject({
+      status: 404
+    })
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Unit tests for the installation health check, src/health.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import { installation } from '../__fixtures__/installations.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const { checkInstallationHealth, classifyHealthError } =
+  await import('../src/health.js')
+
+// Import RequestError to build realistic API failures
+const { RequestError } = await import('octokit')
+
+// Builds an Octokit RequestError with the given status, message and headers
+const requestError = (
+  status: number,
+  message: string,
+  headers: Record<string, string> = {}
+) =>
+  new RequestError(message, status, {
+    request: {
+      method: 'GET',
+      url: 'https://api.github.com/installation/repositories',
+      headers: {}
+    },
+    response: {
+      status,
+      url: 'https://api.github.com/installation/repositories',
+      headers,
+      data: { message },
+      retryCount: 0
+    }
+  })
+
+// Builds an installation client whose token and repository calls can fail
+const client = (failures: { auth?: unknown; request?: unknown } = {}) => ({
+  auth: jest.fn(async () => {
+    if (failures.auth !== undefined) throw failures.auth
+    return { token: 'ghs_token' }
+  }),
+  rest: {
+    apps: {
+      listReposAccessibleToInstallation: jest.fn(async () => {
+        if (failures.request !== undefined) throw failures.request
+        return { data: { total_count: 1, repositories: [] } }
+      })
+    }
+  }
+})
+
+describe('classifyHealthError', () => {
+  it('recognizes IP allow lists, SAML SSO and suspensions', () => {
+    expect(
+      classifyHealthError(
+        requestError(
+          403,
+          'Although you appear to have the correct authorization credentials, the `acme` organization has an IP allow list enabled, and your IP address is not permitted to access this resource.'
+        ),
+        'request-failure'
+      )
+    ).toBe('ip-allowlist-blocked')
+    expect(
+      classifyHealthError(
+        requestError(
+          403,
+          'Resource protected by organization SAML enforcement',
+          {
+            'x-github-sso': 'required; url=https://github.com/orgs/acme/sso'
+          }
+        ),
+        'request-failure'
+      )
+    ).toBe('sso-blocked')
+    expect(
+      classifyHealthError(
+        requestError(403, 'This installation has been suspended'),
+        'token-mint-failure'
+      )
+    ).toBe('suspended')
+  })
+
+  it('falls back to the given status', () => {
+    expect(
+      classifyHealthError(requestError(500, 'Server Error'), 'request-failure')
+    ).toBe('request-failure')
+    expect(classifyHealthError('boom', 'token-mint-failure')).toBe(
+      'token-mint-failure'
+    )
+  })
+})
+
+describe('checkInstallationHealth', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('classifies every installation', async () => {
+    const clients: Record<number, ReturnType<typeof client>> = {
+      1: client(),
+      2: client({ auth: requestError(404, 'Not Found') }),
+      3: client({
+        request: requestError(403, 'The organization has an IP allow list')
+      })
+    }
+    const createClient = jest.fn(async (id: number) => clients[id])
+
+    const health = await checkInstallationHealth(
+      [
+        installation(1, 'acme'),
+        installation(2, 'gone'),
+        installation(3, 'locked'),
+        { ...installation(4, 'paused'), suspended_at: '2026-01-01T00:00:00Z' }
+      ],
+      createClient
+    )
+
+    expect(health).toEqual({
+      acme: { installation_id: 1, status: 'healthy', message: null },
+      gone: {
+        installation_id: 2,
+        status: 'token-mint-failure',
+        message: 'Not Found'
+      },
+      locked: {
+        installation_id: 3,
+        status: 'ip-allowlist-blocked',
+        message: 'The organization has an IP allow list'
+      },
+      paused: { installation_id: 4, status: 'suspended', message: null }
+    })
+    expect(createClient).not.toHaveBeenCalledWith(4)
+    expect(clients[1].auth).toHaveBeenCalledWith({ type: 'installation' })
+    expect(
+      clients[1].rest.apps.listReposAccessibleToInstallation
+    ).toHaveBeenCalledWith({ per_page: 1 })
+    expect(
+      clients[2].rest.apps.listReposAccessibleToInstallation
+    ).not.toHaveBeenCalled()
+    expect(core.warning).toHaveBeenCalledWith(
+      'Installation for gone is token-mint-failure: Not Found'
+    )
+    expect(core.info).toHaveBeenCalledWith(
+      'Checked 4 installations: 1 healthy, 3 unhealthy'
+    )
+  })
+
+  it('reports a client that cannot be created as a token mint failure', async () => {
+    const health = await checkInstallationHealth(
+      [installation(1, 'acme')],
+      async () => {
+        throw new Error('installationId option is required')
+      }
+    )
+
+    expect(health.acme.status).toBe('token-mint-failure')
+  })
+})
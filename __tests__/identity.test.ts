@@ -0,0 +1,167 @@
+/**
+ * Unit tests for the app identity pre-flight check, src/identity.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const { getAppIdentity, getClockSkew } = await import('../src/identity.js')
+const { ActionError } = await import('../src/errors.js')
+
+const app = {
+  id: 123,
+  client_id: 'Iv23liAbCdEf12345678',
+  slug: 'ci-bot',
+  name: 'CI Bot',
+  owner: { login: 'acme' },
+  installations_count: 4
+}
+
+const mockOctokit = (getAuthenticated: () => Promise<unknown>) =>
+  ({
+    rest: { apps: { getAuthenticated: jest.fn(getAuthenticated) } }
+  }) as unknown as Parameters<typeof getAppIdentity>[0]
+
+const requestError = (date?: string) =>
+  Object.assign(new Error('A JSON web token could not be decoded'), {
+    status: 401,
+    response: { headers: date ? { date } : {} }
+  })
+
+const secondsAgo = (seconds: number) =>
+  new Date(Date.now() - seconds * 1000).toUTCString()
+
+describe('getClockSkew', () => {
+  it('measures how far the runner is ahead of the server', () => {
+    expect(
+      getClockSkew(
+        'Mon, 19 Oct 2026 12:00:00 GMT',
+        Date.UTC(2026, 9, 19, 12, 1)
+      )
+    ).toBe(60)
+  })
+
+  it('is negative when the runner is behind', () => {
+    expect(
+      getClockSkew(
+        'Mon, 19 Oct 2026 12:00:00 GMT',
+        Date.UTC(2026, 9, 19, 11, 59, 15)
+      )
+    ).toBe(-45)
+  })
+
+  it('returns null without a valid date header', () => {
+    expect(getClockSkew(undefined)).toBeNull()
+    expect(getClockSkew('not a date')).toBeNull()
+  })
+})
+
+describe('getAppIdentity', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('returns the app metadata', async () => {
+    const octokit = mockOctokit(async () => ({
+      data: app,
+      headers: { date: new Date().toUTCString() }
+    }))
+
+    await expect(getAppIdentity(octokit, '123')).resolves.toEqual({
+      id: 123,
+      client_id: 'Iv23liAbCdEf12345678',
+      slug: 'ci-bot',
+      name: 'CI Bot',
+      owner: 'acme',
+      installations_count: 4
+    })
+    expect(core.info).toHaveBeenCalledWith(
+      'Authenticated as CI Bot (ci-bot, app 123) owned by acme'
+    )
+    expect(core.warning).not.toHaveBeenCalled()
+  })
+
+  it('normalizes missing fields', async () => {
+    const octokit = mockOctokit(async () => ({
+      data: { id: 123, name: 'CI Bot', owner: null }
+    }))
+
+    await expect(getAppIdentity(octokit, '123')).resolves.toEqual({
+      id: 123,
+      client_id: '',
+      slug: '',
+      name: 'CI Bot',
+      owner: '',
+      installations_count: null
+    })
+  })
+
+  it('warns about clock skew when the request succeeds', async () => {
+    const octokit = mockOctokit(async () => ({
+      data: app,
+      headers: { date: secondsAgo(120) }
+    }))
+
+    await getAppIdentity(octokit, '123')
+
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringMatching(/clock is 1\d\ds ahead of GitHub's/)
+    )
+  })
+
+  it('accepts the client ID as the expected app', async () => {
+    const octokit = mockOctokit(async () => ({ data: app }))
+
+    await expect(
+      getAppIdentity(octokit, 'Iv23liAbCdEf12345678')
+    ).resolves.toMatchObject({ id: 123, slug: 'ci-bot' })
+  })
+
+  it('fails when the key belongs to another app', async () => {
+    const octokit = mockOctokit(async () => ({ data: app }))
+
+    await expect(getAppIdentity(octokit, '456')).rejects.toMatchObject({
+      code: 'bad-credentials',
+      message: 'The private key belongs to app 123 (ci-bot), not to app 456'
+    })
+  })
+
+  it('reports a rejected token as bad credentials', async () => {
+    const octokit = mockOctokit(async () => {
+      throw requestError(new Date().toUTCString())
+    })
+
+    const error = await getAppIdentity(octokit, '123').catch((e) => e)
+
+    expect(error).toBeInstanceOf(ActionError)
+    expect(error.code).toBe('bad-credentials')
+    expect(error.message).toContain(
+      'does not belong to app 123, or has been revoked'
+    )
+    expect(error.cause).toBeInstanceOf(Error)
+  })
+
+  it('reports a rejected token as clock skew when the clocks differ', async () => {
+    const octokit = mockOctokit(async () => {
+      throw requestError(secondsAgo(-300))
+    })
+
+    await expect(getAppIdentity(octokit, '123')).rejects.toMatchObject({
+      code: 'clock-skew',
+      message: expect.stringMatching(/clock is \d+s behind GitHub's/)
+    })
+  })
+
+  it('rethrows other errors unchanged', async () => {
+    const failure = Object.assign(new Error('Not Found'), { status: 404 })
+    const octokit = mockOctokit(async () => {
+      throw failure
+    })
+
+    await expect(getAppIdentity(octokit, '123')).rejects.toBe(failure)
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for the matrix outputs, src/matrix.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const { buildMatrix, chunk, DEFAULT_MATRIX_OPTIONS, MATRIX_JOB_LIMIT } =
+  await import('../src/matrix.js')
+
+// Import fast-check for property-based testing
+const fc = await import('fast-check')
+
+const installations = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({
+    id: index + 1,
+    account: { login: `org${index + 1}`, type: 'Organization' as const }
+  }))
+
+describe('chunk', () => {
+  it('keeps every item in order across chunks', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer(), { maxLength: 100 }),
+        fc.integer({ min: 0, max: 20 }),
+        (items, size) => {
+          const chunks = chunk(items, size)
+
+          expect(chunks.flat()).toEqual(items)
+          expect(chunks.length).toBeGreaterThanOrEqual(1)
+          expect(
+            chunks.every((part) => size === 0 || part.length <= size)
+          ).toBe(true)
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+})
+
+describe('buildMatrix', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('builds an include matrix with per-org fields', () => {
+    const { matrix, batches } = buildMatrix(installations(2))
+
+    expect(matrix).toEqual({
+      include: [
+        { org: 'org1', installation_id: 1, account_type: 'Organization' },
+        { org: 'org2', installation_id: 2, account_type: 'Organization' }
+      ]
+    })
+    expect(batches).toEqual([matrix])
+  })
+
+  it('returns a single empty batch without installations', () => {
+    expect(buildMatrix([])).toEqual({
+      matrix: { include: [] },
+      batches: [{ include: [] }]
+    })
+  })
+
+  it('splits the installations into batches', () => {
+    const { matrix, batches } = buildMatrix(installations(5), {
+      batchSize: 2,
+      batchIndex: null
+    })
+
+    expect(batches.map((batch) => batch.include.length)).toEqual([2, 2, 1])
+    expect(matrix.include).toHaveLength(5)
+  })
+
+  it('selects a batch by index', () => {
+    const { matrix } = buildMatrix(installations(5), {
+      batchSize: 2,
+      batchIndex: 2
+    })
+
+    expect(matrix.include.map((entry) => entry.org)).toEqual(['org5'])
+    expect(core.info).toHaveBeenCalledWith('Using batch 2 of 3 (1 jobs)')
+  })
+
+  it('throws error when the batch index does not exist', () => {
+    expect(() =>
+      buildMatrix(installations(5), { batchSize: 2, batchIndex: 3 })
+    ).toThrow('Invalid batch-index: 3 (there are 3 batches)')
+  })
+
+  it('warns when the matrix exceeds the job limit', () => {
+    buildMatrix(installations(MATRIX_JOB_LIMIT + 1), DEFAULT_MATRIX_OPTIONS)
+
+    expect(core.warning).toHaveBeenCalledWith(
+      'The matrix has 257 jobs, more than the limit of 256; set batch-size to split it'
+    )
+  })
+})
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for the output formats, src/output.ts
+ */
+import { jest } from '@jest/globals'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import * as core from '../__fixtures__/core.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const { exportResult, formatResult, setJsonOutput, OUTPUT_SIZE_LIMIT } =
+  await import('../src/output.js')
+
+const installations = [
+  { id: 1, account: { login: 'acme', type: 'Organization' as const } },
+  { id: 2, account: { slug: 'acme-enterprise' }, target_type: 'Enterprise' }
+]
+
+describe('formatResult', () => {
+  it('serializes to a JSON array by default', () => {
+    expect(formatResult(installations)).toBe('["acme","acme-enterprise"]')
+  })
+
+  it('serializes to CSV with a header row', () => {
+    expect(formatResult(installations, 'csv')).toBe(
+      'organization,installation_id,account_type\nacme,1,Organization\nacme-enterprise,2,Enterprise'
+    )
+  })
+
+  it('serializes to one login per line', () => {
+    expect(formatResult(installations, 'newline')).toBe('acme\nacme-enterprise')
+  })
+
+  it('serializes to a YAML list', () => {
+    expect(formatResult(installations, 'yaml')).toBe(
+      '- "acme"\n- "acme-enterprise"'
+    )
+    expect(formatResult([], 'yaml')).toBe('[]')
+  })
+
+  it('serializes to a Markdown table', () => {
+    expect(formatResult(installations, 'markdown')).toBe(
+      [
+        '| Organization | Installation ID | Account type |',
+        '| --- | --- | --- |',
+        '| acme | 1 | Organization |',
+        '| acme-enterprise | 2 | Enterprise |'
+      ].join('\n')
+    )
+  })
+})
+
+describe('exportResult', () => {
+  const originalEnv = process.env
+  let directory: string
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    directory = mkdtempSync(join(tmpdir(), 'output-test-'))
+    process.env = { ...originalEnv, RUNNER_TEMP: directory }
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('keeps small results inline without writing a file', async () => {
+    await expect(exportResult('["acme"]')).resolves.toEqual({
+      inline: true,
+      file: null
+    })
+  })
+
+  it('writes the result to the configured file', async () => {
+    const file = join(directory, 'nested', 'orgs.csv')
+
+    await expect(
+      exportResult('organization\nacme', { format: 'csv', file })
+    ).resolves.toEqual({ inline: true, file })
+    expect(readFileSync(file, 'utf8')).toBe('organization\nacme')
+  })
+
+  it('spills results over the output limit to the runner temp directory', async () => {
+    const content = 'a'.repeat(OUTPUT_SIZE_LIMIT + 1)
+
+    const result = await exportResult(content, { format: 'newline', file: '' })
+
+    expect(result).toEqual({
+      inline: false,
+      file: join(directory, 'organizations.txt')
+    })
+    expect(readFileSync(join(directory, 'organizations.txt'), 'utf8')).toBe(
+      content
+    )
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining('more than the output limit')
+    )
+  })
+})
+
+describe('setJsonOutput', () => {
+  const originalEnv = process.env
+  let directory: string
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    directory = mkdtempSync(join(tmpdir(), 'output-test-'))
+    process.env = { ...originalEnv, RUNNER_TEMP: directory }
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('sets small values as the output', async () => {
+    await expect(setJsonOutput('matrix', { include: [] })).resolves.toEqual({
+      inline: true,
+      file: null
+    })
+    expect(core.setOutput).toHaveBeenCalledWith('matrix', '{"include":[]}')
+  })
+
+  it('spills an oversized installations value to a file', async () => {
+    const installations = Array.from({ length: 5000 }, (_, index) => ({
+      installation_id: index,
+      account_login: `organization-${index}`,
+      permissions: { contents: 'read', metadata: 'read', issues: 'write' },
+      events: ['push', 'pull_request', 'installation_repositories'],
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z'
+    }))
+    const file = join(directory, 'installations.json')
+
+    await expect(
+      setJsonOutput('installations', installations)
+    ).resolves.toEqual({ inline: false, file })
+    expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual(installations)
+    expect(core.setOutput).not.toHaveBeenCalledWith(
+      'installations',
+      expect.anything()
+    )
+    expect(core.setOutput).toHaveBeenCalledWith('installations-file', file)
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining('The installations output is')
+    )
+  })
+})
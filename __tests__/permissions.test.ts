@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the permission audit, src/permissions.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const { auditPermissions, findPermissionGaps, formatPermissionReport } =
+  await import('../src/permissions.js')
+
+// Import fast-check for property-based testing
+const fc = await import('fast-check')
+
+describe('findPermissionGaps', () => {
+  it('reports missing and insufficient permissions', () => {
+    const gaps = findPermissionGaps(
+      { contents: 'read', issues: 'read', metadata: 'read' },
+      { contents: 'read', issues: 'write', checks: 'read' }
+    )
+
+    expect(gaps).toEqual([
+      { permission: 'issues', required: 'write', granted: 'read' },
+      { permission: 'checks', required: 'read', granted: null }
+    ])
+  })
+
+  it('accepts higher levels than required', () => {
+    expect(
+      findPermissionGaps(
+        { contents: 'write', administration: 'admin' },
+        { contents: 'read', administration: 'write' }
+      )
+    ).toEqual([])
+  })
+
+  it('never reports gaps when granted permissions equal the required ones', () => {
+    fc.assert(
+      fc.property(
+        fc.dictionary(
+          fc.string({ minLength: 1, maxLength: 20 }),
+          fc.constantFrom('read', 'write', 'admin')
+        ),
+        (permissions) => {
+          expect(findPermissionGaps(permissions, permissions)).toEqual([])
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+})
+
+describe('auditPermissions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('returns and logs the installations with gaps', () => {
+    const result = auditPermissions(
+      [
+        {
+          id: 1,
+          account: { login: 'org1', type: 'Organization' },
+          permissions: { issues: 'write' }
+        },
+        {
+          id: 2,
+          account: { login: 'org2', type: 'Organization' },
+          permissions: { issues: 'read' }
+        }
+      ],
+      { issues: 'write' }
+    )
+
+    expect(result).toEqual([
+      {
+        login: 'org2',
+        installation_id: 2,
+        gaps: [{ permission: 'issues', required: 'write', granted: 'read' }]
+      }
+    ])
+    expect(core.info).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Permission audit: 1 of 2 installations are missing required permissions'
+      )
+    )
+  })
+})
+
+describe('formatPermissionReport', () => {
+  it('lists every gap per installation', () => {
+    const report = formatPermissionReport(
+      [
+        {
+          login: 'org2',
+          installation_id: 2,
+          gaps: [{ permission: 'checks', required: 'read', granted: null }]
+        }
+      ],
+      3
+    )
+
+    expect(report).toBe(
+      [
+        'Permission audit: 1 of 3 installations are missing required permissions',
+        '  org2 (installation 2):',
+        '    - checks: requires read, granted none'
+      ].join('\n')
+    )
+  })
+})
@@ -0,0 +1,188 @@
+/**
+ * Unit tests for installation repository listing, src/repositories.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const {
+  DEFAULT_REPOSITORY_FILTER,
+  getInstallationRepositories,
+  listInstallationRepositories,
+  matchesRepositoryFilter
+} = await import('../src/repositories.js')
+
+// Type for mock Octokit client
+interface MockOctokit {
+  rest: {
+    apps: {
+      listReposAccessibleToInstallation: jest.Mock
+    }
+  }
+}
+
+// Builds a mock that serves the given pages with GitHub-style Link headers
+const mockPages = (pages: { full_name: string }[][]) =>
+  ({
+    rest: {
+      apps: {
+        listReposAccessibleToInstallation: jest.fn(
+          async ({ page }: { per_page: number; page: number }) => ({
+            data: {
+              total_count: pages.flat().length,
+              repositories: pages[page - 1] ?? []
+            },
+            headers:
+              page < pages.length
+                ? {
+                    link: `<https://api.github.com/installation/repositories?page=${page + 1}>; rel="next"`
+                  }
+                : {}
+          })
+        )
+      }
+    }
+  }) as unknown as MockOctokit
+
+describe('matchesRepositoryFilter', () => {
+  const repository = {
+    full_name: 'org1/repo',
+    archived: true,
+    fork: false,
+    visibility: 'internal',
+    topics: ['service', 'go']
+  }
+
+  it('keeps every repository with the default filter', () => {
+    expect(matchesRepositoryFilter(repository, DEFAULT_REPOSITORY_FILTER)).toBe(
+      true
+    )
+  })
+
+  it('applies archived and fork modes', () => {
+    expect(
+      matchesRepositoryFilter(repository, {
+        ...DEFAULT_REPOSITORY_FILTER,
+        archived: 'exclude'
+      })
+    ).toBe(false)
+    expect(
+      matchesRepositoryFilter(repository, {
+        ...DEFAULT_REPOSITORY_FILTER,
+        archived: 'only',
+        forks: 'exclude'
+      })
+    ).toBe(true)
+    expect(
+      matchesRepositoryFilter(repository, {
+        ...DEFAULT_REPOSITORY_FILTER,
+        forks: 'only'
+      })
+    ).toBe(false)
+  })
+
+  it('applies visibility and topic filters', () => {
+    expect(
+      matchesRepositoryFilter(repository, {
+        ...DEFAULT_REPOSITORY_FILTER,
+        visibility: ['internal', 'private'],
+        topics: ['go']
+      })
+    ).toBe(true)
+    expect(
+      matchesRepositoryFilter(repository, {
+        ...DEFAULT_REPOSITORY_FILTER,
+        topics: ['library']
+      })
+    ).toBe(false)
+  })
+
+  it('derives visibility from the private flag when missing', () => {
+    expect(
+      matchesRepositoryFilter(
+        { full_name: 'org1/secret', private: true },
+        { ...DEFAULT_REPOSITORY_FILTER, visibility: ['public'] }
+      )
+    ).toBe(false)
+  })
+})
+
+describe('listInstallationRepositories', () => {
+  it('walks every page until no next link is returned', async () => {
+    const octokit = mockPages([
+      [{ full_name: 'org1/a' }, { full_name: 'org1/b' }],
+      [{ full_name: 'org1/c' }]
+    ])
+
+    const result = await listInstallationRepositories(octokit)
+
+    expect(result.map((repository) => repository.full_name)).toEqual([
+      'org1/a',
+      'org1/b',
+      'org1/c'
+    ])
+    expect(
+      octokit.rest.apps.listReposAccessibleToInstallation
+    ).toHaveBeenCalledTimes(2)
+    expect(
+      octokit.rest.apps.listReposAccessibleToInstallation
+    ).toHaveBeenLastCalledWith({ per_page: 100, page: 2 })
+  })
+})
+
+describe('getInstallationRepositories', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('maps each organization to its filtered repositories', async () => {
+    const clients: Record<number, MockOctokit> = {
+      1: mockPages([
+        [
+          { full_name: 'org1/app' },
+          { full_name: 'org1/old', archived: true } as { full_name: string }
+        ]
+      ]),
+      2: mockPages([[{ full_name: 'org2/site' }]])
+    }
+    const createClient = jest.fn(async (id: number) => clients[id])
+
+    const result = await getInstallationRepositories(
+      [
+        { id: 1, account: { login: 'org1', type: 'Organization' } },
+        { id: 2, account: { login: 'org2', type: 'Organization' } }
+      ],
+      createClient,
+      { ...DEFAULT_REPOSITORY_FILTER, archived: 'exclude' }
+    )
+
+    expect(result).toEqual({ org1: ['org1/app'], org2: ['org2/site'] })
+    expect(createClient).toHaveBeenCalledWith(1)
+    expect(createClient).toHaveBeenCalledWith(2)
+    expect(core.info).toHaveBeenCalledWith('Found 1 of 2 repositories for org1')
+  })
+
+  it('reports an organization that cannot be listed without stopping the others', async () => {
+    const createClient = jest.fn(async (id: number) => {
+      if (id === 1) throw new Error('Resource not accessible by integration')
+      return mockPages([[{ full_name: 'org2/site' }]])
+    })
+
+    const result = await getInstallationRepositories(
+      [
+        { id: 1, account: { login: 'org1', type: 'Organization' } },
+        { id: 2, account: { login: 'org2', type: 'Organization' } }
+      ],
+      createClient
+    )
+
+    expect(result).toEqual({ org1: null, org2: ['org2/site'] })
+    expect(core.warning).toHaveBeenCalledWith(
+      'Could not list the repositories of org1: Resource not accessible by integration'
+    )
+  })
+})
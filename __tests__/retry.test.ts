@@ -0,0 +1,188 @@
+/**
+ * Unit tests for retries and rate limit tracking, src/retry.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const { DEFAULT_RETRY, RateLimitTracker, createRetryingFetch, getRetryDelay } =
+  await import('../src/retry.js')
+
+const respond = (
+  status: number,
+  headers: Record<string, string> = {},
+  body = ''
+) => new Response(status === 204 ? null : body, { status, headers })
+
+// Builds a fetch mock that returns the given responses in order
+const mockFetch = (...responses: (Response | Error)[]) => {
+  const fetchMock = jest.fn<typeof fetch>()
+  for (const response of responses) {
+    if (response instanceof Error) {
+      fetchMock.mockRejectedValueOnce(response)
+    } else {
+      fetchMock.mockResolvedValueOnce(response)
+    }
+  }
+  return fetchMock
+}
+
+describe('RateLimitTracker', () => {
+  it('records the rate limit headers', () => {
+    const tracker = new RateLimitTracker()
+
+    tracker.update(
+      new Headers({
+        'x-ratelimit-remaining': '4990',
+        'x-ratelimit-limit': '5000',
+        'x-ratelimit-reset': '1700000000'
+      })
+    )
+
+    expect(tracker.remaining).toBe(4990)
+    expect(tracker.limit).toBe(5000)
+    expect(tracker.reset).toBe(1700000000)
+  })
+
+  it('ignores responses without rate limit headers', () => {
+    const tracker = new RateLimitTracker()
+    tracker.update(new Headers({ 'x-ratelimit-remaining': '10' }))
+
+    tracker.update(new Headers())
+
+    expect(tracker.remaining).toBe(10)
+  })
+})
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially for server errors', async () => {
+    expect(await getRetryDelay(respond(502), 1, DEFAULT_RETRY)).toBe(1)
+    expect(await getRetryDelay(respond(503), 3, DEFAULT_RETRY)).toBe(4)
+  })
+
+  it('does not retry client errors', async () => {
+    expect(await getRetryDelay(respond(404), 1, DEFAULT_RETRY)).toBeNull()
+    expect(
+      await getRetryDelay(respond(403, {}, 'Forbidden'), 1, DEFAULT_RETRY)
+    ).toBeNull()
+  })
+
+  it('honors retry-after', async () => {
+    expect(
+      await getRetryDelay(
+        respond(429, { 'retry-after': '30' }),
+        1,
+        DEFAULT_RETRY
+      )
+    ).toBe(30)
+  })
+
+  it('waits until the primary rate limit resets', async () => {
+    const response = respond(403, {
+      'x-ratelimit-remaining': '0',
+      'x-ratelimit-reset': '1700000100'
+    })
+
+    expect(
+      await getRetryDelay(response, 1, DEFAULT_RETRY, 1700000000 * 1000)
+    ).toBe(101)
+  })
+
+  it('waits at least a minute for secondary rate limits', async () => {
+    const response = respond(
+      403,
+      {},
+      '{"message":"You have exceeded a secondary rate limit"}'
+    )
+
+    expect(await getRetryDelay(response, 1, DEFAULT_RETRY)).toBe(60)
+  })
+})
+
+describe('createRetryingFetch', () => {
+  const sleep = jest.fn(async () => {})
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('retries transient failures until a request succeeds', async () => {
+    const baseFetch = mockFetch(
+      respond(502),
+      new TypeError('fetch failed'),
+      respond(200, { 'x-ratelimit-remaining': '42', 'x-ratelimit-limit': '50' })
+    )
+    const tracker = new RateLimitTracker()
+    const retryingFetch = createRetryingFetch(
+      baseFetch,
+      DEFAULT_RETRY,
+      tracker,
+      sleep
+    )
+
+    const response = await retryingFetch(
+      'https://api.github.com/app/installations',
+      { method: 'GET' }
+    )
+
+    expect(response.status).toBe(200)
+    expect(baseFetch).toHaveBeenCalledTimes(3)
+    expect(sleep).toHaveBeenNthCalledWith(1, 1000)
+    expect(sleep).toHaveBeenNthCalledWith(2, 2000)
+    expect(tracker.remaining).toBe(42)
+    expect(core.debug).toHaveBeenCalledWith(
+      'GET https://api.github.com/app/installations returned 200 (rate limit remaining: 42/50)'
+    )
+  })
+
+  it('returns the last response once retries are exhausted', async () => {
+    const baseFetch = mockFetch(respond(500), respond(500))
+    const retryingFetch = createRetryingFetch(
+      baseFetch,
+      { ...DEFAULT_RETRY, maxRetries: 1 },
+      undefined,
+      sleep
+    )
+
+    const response = await retryingFetch('https://api.github.com/app')
+
+    expect(response.status).toBe(500)
+    expect(baseFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('rethrows network errors once retries are exhausted', async () => {
+    const baseFetch = mockFetch(new TypeError('fetch failed'))
+    const retryingFetch = createRetryingFetch(
+      baseFetch,
+      { ...DEFAULT_RETRY, maxRetries: 0 },
+      undefined,
+      sleep
+    )
+
+    await expect(retryingFetch('https://api.github.com/app')).rejects.toThrow(
+      'fetch failed'
+    )
+  })
+
+  it('does not wait longer than the maximum wait', async () => {
+    const baseFetch = mockFetch(respond(429, { 'retry-after': '3600' }))
+    const retryingFetch = createRetryingFetch(
+      baseFetch,
+      DEFAULT_RETRY,
+      undefined,
+      sleep
+    )
+
+    const response = await retryingFetch('https://api.github.com/app')
+
+    expect(response.status).toBe(429)
+    expect(sleep).not.toHaveBeenCalled()
+    expect(core.warning).toHaveBeenCalledWith(
+      'GET https://api.github.com/app returned 429; not retrying because the required wait of 3600s exceeds 600s'
+    )
+  })
+})
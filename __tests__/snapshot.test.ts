@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the snapshot diff mode, src/snapshot.ts
+ */
+import { jest } from '@jest/globals'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import * as core from '../__fixtures__/core.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const { diffOrganizations, readSnapshot, writeSnapshot } =
+  await import('../src/snapshot.js')
+
+// Import fast-check for property-based testing
+const fc = await import('fast-check')
+
+describe('diffOrganizations', () => {
+  it('reports added, removed and unchanged organizations', () => {
+    expect(
+      diffOrganizations(['acme', 'Legacy', 'other'], ['ACME', 'other', 'new'])
+    ).toEqual({
+      added: ['new'],
+      removed: ['Legacy'],
+      unchanged: ['ACME', 'other'],
+      changed: true
+    })
+  })
+
+  it('is unchanged when both runs found the same organizations', () => {
+    fc.assert(
+      fc.property(fc.uniqueArray(fc.string()), (organizations) => {
+        const diff = diffOrganizations(organizations, [...organizations])
+
+        expect(diff.changed).toBe(false)
+        expect(diff.added).toEqual([])
+        expect(diff.removed).toEqual([])
+      }),
+      { numRuns: 100 }
+    )
+  })
+})
+
+describe('readSnapshot and writeSnapshot', () => {
+  let directory: string
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    directory = mkdtempSync(join(tmpdir(), 'snapshot-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('round-trips a snapshot file', async () => {
+    const path = join(directory, 'nested', 'snapshot.json')
+
+    await writeSnapshot(path, ['acme', 'other'], new Date('2024-06-01'))
+
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({
+      created_at: '2024-06-01T00:00:00.000Z',
+      organizations: ['acme', 'other']
+    })
+    await expect(readSnapshot(path)).resolves.toEqual(['acme', 'other'])
+  })
+
+  it('accepts a plain JSON array of organizations', async () => {
+    const path = join(directory, 'organizations.json')
+    writeFileSync(path, '["acme"]')
+
+    await expect(readSnapshot(path)).resolves.toEqual(['acme'])
+  })
+
+  it('treats a missing file as an empty snapshot', async () => {
+    await expect(
+      readSnapshot(join(directory, 'missing.json'))
+    ).resolves.toEqual([])
+    expect(core.info).toHaveBeenCalledWith(
+      expect.stringContaining('No previous snapshot found')
+    )
+  })
+
+  it('throws error when the file is not a snapshot', async () => {
+    const path = join(directory, 'snapshot.json')
+
+    writeFileSync(path, '{"organizations": [1]}')
+    await expect(readSnapshot(path)).rejects.toThrow(
+      'Invalid previous-snapshot: expected a JSON array of organizations'
+    )
+
+    writeFileSync(path, 'not json')
+    await expect(readSnapshot(path)).rejects.toThrow(
+      'Invalid previous-snapshot'
+    )
+  })
+})
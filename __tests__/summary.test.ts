@@ -0,0 +1,86 @@
+/**
+ * Unit tests for the job summary report, src/summary.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const { countByAccountType, writeJobSummary } =
+  await import('../src/summary.js')
+const { DEFAULT_FILTER } = await import('../src/filters.js')
+
+const installations = [
+  {
+    id: 1,
+    account: { login: 'acme', type: 'Organization' as const },
+    repository_selection: 'all' as const,
+    created_at: '2024-01-01T00:00:00Z'
+  },
+  {
+    id: 2,
+    account: { login: 'legacy', type: 'Organization' as const },
+    repository_selection: 'selected' as const,
+    created_at: '2023-01-01T00:00:00Z',
+    suspended_at: '2024-05-02T12:00:00Z',
+    suspended_by: { login: 'octocat' }
+  },
+  { id: 3, account: { login: '<script>', type: 'User' as const } },
+  { id: 4, account: null }
+]
+
+describe('countByAccountType', () => {
+  it('counts retrieved and selected installations per type', () => {
+    expect(
+      countByAccountType(installations, installations.slice(0, 1))
+    ).toEqual([
+      { type: 'Organization', total: 2, selected: 1 },
+      { type: 'User', total: 1, selected: 0 },
+      { type: 'Unknown', total: 1, selected: 0 }
+    ])
+  })
+})
+
+describe('writeJobSummary', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('writes totals, the organization table and the filtered-out accounts', async () => {
+    await writeJobSummary(installations, installations.slice(0, 2), {
+      ...DEFAULT_FILTER,
+      suspended: 'include'
+    })
+
+    expect(core.summary.addRaw).toHaveBeenCalledWith(
+      'Selected 2 of 4 installations.',
+      true
+    )
+    expect(core.summary.addTable).toHaveBeenCalledTimes(2)
+    expect(core.summary.addTable.mock.calls[1][0].slice(1)).toEqual([
+      ['acme', '1', 'all', '2024-01-01T00:00:00Z', 'No'],
+      [
+        'legacy',
+        '2',
+        'selected',
+        '2023-01-01T00:00:00Z',
+        'Since 2024-05-02T12:00:00Z by octocat'
+      ]
+    ])
+    expect(core.summary.addDetails).toHaveBeenCalledWith(
+      'Filtered out accounts (2)',
+      '<ul><li><code>&lt;script&gt;</code>: account type User is not in account-types</li><li><code>installation 4</code>: no account</li></ul>'
+    )
+    expect(core.summary.write).toHaveBeenCalled()
+  })
+
+  it('omits the filtered-out section when every account is selected', async () => {
+    await writeJobSummary(installations.slice(0, 1), installations.slice(0, 1))
+
+    expect(core.summary.addDetails).not.toHaveBeenCalled()
+    expect(core.summary.write).toHaveBeenCalled()
+  })
+})
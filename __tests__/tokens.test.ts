@@ -0,0 +1,137 @@
+/**
+ * Unit tests for installation token creation, src/tokens.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import { installation } from '../__fixtures__/installations.js'
+
+// Mocks should be declared before the module being tested is imported.
+jest.unstable_mockModule('@actions/core', () => core)
+
+// The module being tested should be imported dynamically. This ensures that the
+// mocks are used in place of any actual dependencies.
+const { createInstallationTokens, repositoriesForOrganization } =
+  await import('../src/tokens.js')
+
+// Type for mock Octokit client
+interface MockOctokit {
+  rest: {
+    apps: {
+      createInstallationAccessToken: jest.Mock
+    }
+  }
+}
+
+const mockOctokit = () =>
+  ({
+    rest: {
+      apps: {
+        createInstallationAccessToken: jest.fn(
+          async ({ installation_id }: { installation_id: number }) => ({
+            data: {
+              token: `ghs_token${installation_id}`,
+              expires_at: '2030-01-01T00:00:00Z'
+            }
+          })
+        )
+      }
+    }
+  }) as unknown as MockOctokit
+
+describe('repositoriesForOrganization', () => {
+  it('applies plain names to every organization', () => {
+    expect(repositoriesForOrganization('org1', ['repo1', 'repo2'])).toEqual([
+      'repo1',
+      'repo2'
+    ])
+  })
+
+  it('applies owner/repo entries only to the matching organization', () => {
+    const repositories = ['shared', 'Org1/private', 'org2/other']
+
+    expect(repositoriesForOrganization('org1', repositories)).toEqual([
+      'shared',
+      'private'
+    ])
+    expect(repositoriesForOrganization('org3', repositories)).toEqual([
+      'shared'
+    ])
+  })
+})
+
+describe('createInstallationTokens', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('creates and masks a token for each organization', async () => {
+    const octokit = mockOctokit()
+
+    const tokens = await createInstallationTokens(
+      octokit,
+      [installation(1, 'org1'), installation(2, 'org2')],
+      { repositories: [], permissions: {} }
+    )
+
+    expect(tokens).toEqual({ org1: 'ghs_token1', org2: 'ghs_token2' })
+    expect(core.setSecret).toHaveBeenCalledWith('ghs_token1')
+    expect(core.setSecret).toHaveBeenCalledWith('ghs_token2')
+    expect(
+      octokit.rest.apps.createInstallationAccessToken
+    ).toHaveBeenCalledWith({ installation_id: 1 })
+  })
+
+  it('narrows tokens to repositories and permissions', async () => {
+    const octokit = mockOctokit()
+
+    await createInstallationTokens(octokit, [installation(1, 'org1')], {
+      repositories: ['repo1', 'org1/repo2'],
+      permissions: { contents: 'read' }
+    })
+
+    expect(
+      octokit.rest.apps.createInstallationAccessToken
+    ).toHaveBeenCalledWith({
+      installation_id: 1,
+      repositories: ['repo1', 'repo2'],
+      permissions: { contents: 'read' }
+    })
+  })
+
+  it('skips organizations without matching repositories', async () => {
+    const octokit = mockOctokit()
+
+    const tokens = await createInstallationTokens(
+      octokit,
+      [installation(1, 'org1'), installation(2, 'org2')],
+      { repositories: ['org1/repo1'], permissions: {} }
+    )
+
+    expect(tokens).toEqual({ org1: 'ghs_token1' })
+    expect(
+      octokit.rest.apps.createInstallationAccessToken
+    ).toHaveBeenCalledTimes(1)
+    expect(core.info).toHaveBeenCalledWith(
+      'Skipping token for org2: no matching repositories'
+    )
+  })
+
+  it('skips an organization whose token cannot be created', async () => {
+    const octokit = mockOctokit()
+    octokit.rest.apps.createInstallationAccessToken.mockRejectedValueOnce(
+      new Error('Not Found')
+    )
+
+    const tokens = await createInstallationTokens(
+      octokit,
+      [installation(1, 'org1'), installation(2, 'org2')],
+      { repositories: [], permissions: {} }
+    )
+
+    expect(tokens).toEqual({ org2: 'ghs_token2' })
+    expect(core.warning).toHaveBeenCalledWith(
+      'Could not create an installation token for org1: Not Found'
+    )
+    expect(core.info).toHaveBeenCalledWith('Created 1 installation tokens')
+  })
+})
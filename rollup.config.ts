@@ -4,15 +4,44 @@ import commonjs from '@rollup/plugin-commonjs'
 import nodeResolve from '@rollup/plugin-node-resolve'
 import typescript from '@rollup/plugin-typescript'
 
-const config = {
-  input: 'src/index.ts',
-  output: {
-    esModule: true,
-    file: 'dist/index.js',
-    format: 'es',
-    sourcemap: true
+const plugins = [
+  typescript(),
+  nodeResolve({ preferBuiltins: true }),
+  commonjs()
+]
+
+const config = [
+  {
+    input: 'src/index.ts',
+    output: {
+      esModule: true,
+      file: 'dist/index.js',
+      format: 'es',
+      sourcemap: true
+    },
+    plugins
+  },
+  {
+    input: 'src/bin.ts',
+    output: {
+      banner: '#!/usr/bin/env node',
+      esModule: true,
+      file: 'dist/bin.js',
+      format: 'es',
+      sourcemap: true
+    },
+    plugins
   },
-  plugins: [typescript(), nodeResolve({ preferBuiltins: true }), commonjs()]
-}
+  {
+    input: 'src/lib.ts',
+    output: {
+      esModule: true,
+      file: 'dist/lib.js',
+      format: 'es',
+      sourcemap: true
+    },
+    plugins
+  }
+]
 
 export default config
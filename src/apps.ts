@@ -0,0 +1,179 @@
+import { parse } from 'yaml'
+import { InputError } from './errors.js'
+import { accountLogin } from './filters.js'
+import type { Installation } from './main.js'
+
+/**
+ * Matches a numeric GitHub App ID
+ */
+const APP_ID = /^\d+$/
+
+/**
+ * Matches a GitHub App client ID, e.g. `Iv23liAbCdEf12345678`
+ */
+const CLIENT_ID = /^Iv[0-9A-Za-z.]+$/
+
+/**
+ * Type definition for the credentials of one GitHub App. The app ID holds
+ * either the numeric app ID or the client ID, whichever was given; both are
+ * accepted as the JWT issuer.
+ */
+export interface AppCredentials {
+  name: string
+  appId: string
+  privateKey: string
+}
+
+/**
+ * Type definition for app credentials as given in the inputs, before the
+ * private key is loaded
+ */
+export interface AppCredentialsInput extends AppCredentials {
+  passphrase: string
+  keyInput: string
+}
+
+/**
+ * Type definition for the organizations one GitHub App is installed on
+ */
+export interface AppBreakdown {
+  name: string
+  app_id: string
+  organizations: string[]
+}
+
+/**
+ * Picks the identifier of a GitHub App from its app ID and client ID, exactly
+ * one of which must be given.
+ *
+ * @param appIdName - The name of the app ID input or option
+ * @param appId - The numeric app ID, or an empty string
+ * @param clientIdName - The name of the client ID input or option
+ * @param clientId - The client ID, or an empty string
+ * @returns The app ID or the client ID
+ * @throws InputError if neither or both are given, or if the given one is
+ * malformed
+ */
+export function parseAppIdentifier(
+  appIdName: string,
+  appId: string,
+  clientIdName: string,
+  clientId: string
+): string {
+  const id = appId.trim()
+  const client = clientId.trim()
+
+  if (id !== '' && client !== '') {
+    throw new InputError(`Set either ${appIdName} or ${clientIdName}, not both`)
+  }
+  if (client !== '') {
+    if (!CLIENT_ID.test(client)) {
+      throw new InputError(
+        `Invalid ${clientIdName}: expected a client ID starting with Iv, got "${client}"`
+      )
+    }
+    return client
+  }
+  if (id === '') {
+    throw new InputError(
+      `Input required and not supplied: ${appIdName} or ${clientIdName}`
+    )
+  }
+  if (!APP_ID.test(id)) {
+    throw new InputError(
+      `Invalid ${appIdName}: expected a numeric app ID, got "${id}"`
+    )
+  }
+  return id
+}
+
+/**
+ * Parses a list of app credentials given as YAML or JSON, e.g.
+ * `[{"name": "ci-bot", "app-id": 123, "private-key": "..."}]`. Entries may
+ * have a `client-id` instead of the `app-id`, and a `private-key-passphrase`.
+ *
+ * @param name - The name of the input
+ * @param raw - The YAML or JSON list
+ * @returns The app credentials, named `app-<id>` unless a name is given
+ * @throws InputError if the value is not a list of app credentials
+ */
+export function parseAppCredentials(
+  name: string,
+  raw: string
+): AppCredentialsInput[] {
+  let entries: unknown
+  try {
+    entries = parse(raw)
+  } catch (error) {
+    throw new InputError(
+      `Invalid ${name}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new InputError(`Invalid ${name}: expected a list of apps`)
+  }
+
+  return entries.map((entry: Record<string, unknown> | null, index) => {
+    const privateKey = entry?.['private-key']
+    if (typeof privateKey !== 'string' || !privateKey.trim()) {
+      throw new InputError(
+        `Invalid ${name}: app ${index + 1} needs a private-key`
+      )
+    }
+    const appId = parseAppIdentifier(
+      `${name}[${index + 1}].app-id`,
+      String(entry?.['app-id'] ?? ''),
+      `${name}[${index + 1}].client-id`,
+      String(entry?.['client-id'] ?? '')
+    )
+
+    const passphrase = entry?.['private-key-passphrase']
+    return {
+      name: typeof entry?.name === 'string' ? entry.name : `app-${appId}`,
+      appId,
+      privateKey,
+      passphrase: typeof passphrase === 'string' ? passphrase : '',
+      keyInput: `${name}[${index + 1}].private-key`
+    }
+  })
+}
+
+/**
+ * Keeps the first installation of every account, so an organization that
+ * installed several of the apps is only listed once. Logins are compared
+ * case-insensitively.
+ *
+ * @param installations - The installations of every app, in app order
+ * @returns The installations with unique accounts
+ */
+export function deduplicateInstallations(
+  installations: Installation[]
+): Installation[] {
+  const seen = new Set<string>()
+
+  return installations.filter((installation) => {
+    const login = accountLogin(installation).toLowerCase()
+    if (seen.has(login)) {
+      return false
+    }
+    seen.add(login)
+    return true
+  })
+}
+
+/**
+ * Records which organizations each app is installed on.
+ *
+ * @param results - The app credentials with the organizations found for them
+ * @returns The breakdown, one entry per app
+ */
+export function buildAppBreakdown(
+  results: { app: AppCredentials; organizations: string[] }[]
+): AppBreakdown[] {
+  return results.map(({ app, organizations }) => ({
+    name: app.name,
+    app_id: app.appId,
+    organizations
+  }))
+}
@@ -0,0 +1,8 @@
+/**
+ * The entrypoint for the command line interface. This file simply runs the
+ * command line interface with the process arguments.
+ */
+import { runCli } from './cli.js'
+
+/* istanbul ignore next */
+process.exitCode = await runCli(process.argv.slice(2))
@@ -0,0 +1,170 @@
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { actionsLogger, type Logger } from './logger.js'
+
+/**
+ * Settings used to cache API responses between steps and runs.
+ */
+export interface CacheOptions {
+  directory: string
+  ttlSeconds: number
+}
+
+/**
+ * Default cache settings (disabled, entries kept for an hour once enabled).
+ */
+export const DEFAULT_CACHE_OPTIONS: CacheOptions = {
+  directory: '',
+  ttlSeconds: 3600
+}
+
+/**
+ * Type definition for a cached API response
+ */
+export interface CacheEntry<T> {
+  etag: string
+  stored_at: string
+  data: T
+  headers: { link?: string }
+}
+
+/**
+ * Type definition for the response of a request that can be cached
+ */
+export interface CacheableResponse<T> {
+  data: T
+  headers?: { link?: string; etag?: string }
+}
+
+/**
+ * Stores API responses with their ETags in a directory, one JSON file per
+ * request, so later requests can be made conditional with `If-None-Match`.
+ * Entries older than the TTL are ignored. Keys are scoped by a namespace,
+ * such as the API URL and app, so apps sharing a directory do not mix.
+ */
+export class ResponseCache {
+  hits = 0
+  misses = 0
+
+  constructor(
+    private readonly options: CacheOptions,
+    private readonly namespace: string = '',
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Computes the file of a cache key.
+   *
+   * @param key - The request key
+   * @returns The path of the cache file
+   */
+  private path(key: string): string {
+    const hash = createHash('sha256')
+      .update(`${this.namespace}\n${key}`)
+      .digest('hex')
+    return join(this.options.directory, `${hash}.json`)
+  }
+
+  /**
+   * Reads a cache entry that has not expired.
+   *
+   * @param key - The request key
+   * @returns A promise that resolves to the entry, or null if it is missing,
+   * expired or unreadable
+   */
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    let entry: CacheEntry<T>
+    try {
+      entry = JSON.parse(await readFile(this.path(key), 'utf8'))
+    } catch {
+      return null
+    }
+
+    const age = (this.now() - Date.parse(entry.stored_at)) / 1000
+    if (!(age >= 0 && age < this.options.ttlSeconds) || !entry.etag) {
+      return null
+    }
+    return entry
+  }
+
+  /**
+   * Stores a response with its ETag.
+   *
+   * @param key - The request key
+   * @param etag - The ETag of the response
+   * @param data - The response data
+   * @param headers - The response headers needed to replay it
+   * @returns A promise that resolves when the entry is written
+   */
+  async set<T>(
+    key: string,
+    etag: string,
+    data: T,
+    headers: { link?: string } = {}
+  ): Promise<void> {
+    const entry: CacheEntry<T> = {
+      etag,
+      stored_at: new Date(this.now()).toISOString(),
+      data,
+      headers
+    }
+    await mkdir(this.options.directory, { recursive: true })
+    await writeFile(this.path(key), JSON.stringify(entry), 'utf8')
+  }
+
+  /**
+   * Whether every request was answered from the cache.
+   */
+  get allHits(): boolean {
+    return this.hits > 0 && this.misses === 0
+  }
+}
+
+/**
+ * Makes a request conditional on the cached ETag. When the API answers 304
+ * Not Modified, which does not count against the rate limit, the cached
+ * response is returned and its TTL restarts; otherwise the new response is
+ * cached.
+ *
+ * @param cache - The response cache, or null to always make the request
+ * @param key - The request key
+ * @param request - Makes the request with the given extra headers
+ * @param logger - Receives the cache hits
+ * @returns A promise that resolves to the cached or new response
+ */
+export async function cachedRequest<T>(
+  cache: ResponseCache | null,
+  key: string,
+  request: (headers: Record<string, string>) => Promise<CacheableResponse<T>>,
+  logger: Logger = actionsLogger
+): Promise<CacheableResponse<T>> {
+  if (cache === null) {
+    return request({})
+  }
+
+  const entry = await cache.get<T>(key)
+  let response: CacheableResponse<T>
+  try {
+    response = await request(
+      entry === null ? {} : { 'if-none-match': entry.etag }
+    )
+  } catch (error) {
+    if (entry !== null && (error as { status?: number }).status === 304) {
+      cache.hits++
+      logger.debug(`Not modified since ${entry.stored_at}: ${key}`)
+      await cache.set(key, entry.etag, entry.data, entry.headers)
+      return { data: entry.data, headers: entry.headers }
+    }
+    throw error
+  }
+
+  cache.misses++
+  const etag = response.headers?.etag
+  if (etag) {
+    await cache.set(key, etag, response.data, {
+      link: response.headers?.link
+    })
+  }
+  return response
+}
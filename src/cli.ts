@@ -0,0 +1,329 @@
+import { readFile } from 'fs/promises'
+import { parseArgs } from 'util'
+import { parseAppIdentifier } from './apps.js'
+import { DEFAULT_CACHE_OPTIONS } from './cache.js'
+import { InputError, classifyError } from './errors.js'
+import {
+  SUSPENDED_MODES,
+  accountLogin,
+  accountType,
+  parseAccountTypes
+} from './filters.js'
+import { loadPrivateKey, validatePrivateKey } from './keys.js'
+import { createStreamLogger } from './logger.js'
+import {
+  DEFAULT_API_URL,
+  DEFAULT_CLIENT_OPTIONS,
+  DEFAULT_PAGINATION,
+  listInstalledOrganizations,
+  parseApiUrl,
+  parseChoice,
+  parseInteger,
+  readCaCertificate,
+  splitList,
+  type Installation,
+  type ListOptions
+} from './main.js'
+import { OUTPUT_FORMATS, formatResult } from './output.js'
+
+/**
+ * Formats the command line interface can print, the first one being the
+ * default
+ */
+export const CLI_FORMATS = [...OUTPUT_FORMATS, 'table'] as const
+
+/**
+ * Type definition for a command line output format
+ */
+export type CliFormat = (typeof CLI_FORMATS)[number]
+
+/**
+ * The usage text printed by `--help`
+ */
+export const USAGE = `Usage: list-github-app-installed-orgs [options]
+
+Lists the organizations where a GitHub App is installed.
+
+Options:
+  --app-id <id>               GitHub App ID (default: $GITHUB_APP_ID)
+  --client-id <id>            GitHub App client ID, instead of --app-id
+                              (default: $GITHUB_APP_CLIENT_ID)
+  --private-key-file <path>   Path of the GitHub App private key (default:
+                              the key in $GITHUB_APP_PRIVATE_KEY, decrypted
+                              with $GITHUB_APP_PRIVATE_KEY_PASSPHRASE)
+  --api-url <url>             GitHub API URL (default: $GITHUB_API_URL or
+                              ${DEFAULT_API_URL})
+  --ca-certificate <path>     PEM file with additional CA certificates
+  --include <pattern>         Only list accounts matching the glob or /regex/
+                              (repeatable)
+  --exclude <pattern>         Skip accounts matching the glob or /regex/
+                              (repeatable)
+  --account-types <types>     Comma-separated account types (default:
+                              Organization)
+  --suspended <mode>          ${SUSPENDED_MODES.join(', ')} (default: ${SUSPENDED_MODES[0]})
+  --per-page <n>              Installations per page, 1 to 100 (default: 100)
+  --max-installations <n>     Stop after this many installations (default: 0,
+                              no limit)
+  --cache-directory <path>    Cache installation pages in this directory and
+                              revalidate them with ETags
+  --cache-ttl <seconds>       Age after which cached pages are discarded
+                              (default: 3600)
+  --format <format>           ${CLI_FORMATS.join(', ')} (default: ${CLI_FORMATS[0]})
+  --verbose                   Print progress messages to stderr
+  --help                      Show this help`
+
+/**
+ * Type definition for the streams the command line interface writes to
+ */
+export interface CliIO {
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+}
+
+/**
+ * Type definition for the parsed command line
+ */
+export interface CliOptions {
+  help: boolean
+  verbose: boolean
+  format: CliFormat
+  privateKeyFile: string
+  list: Omit<ListOptions, 'privateKey' | 'logger'>
+}
+
+/**
+ * The options accepted on the command line
+ */
+const OPTIONS = {
+  'app-id': { type: 'string' },
+  'client-id': { type: 'string' },
+  'private-key-file': { type: 'string' },
+  'api-url': { type: 'string' },
+  'ca-certificate': { type: 'string' },
+  include: { type: 'string', multiple: true },
+  exclude: { type: 'string', multiple: true },
+  'account-types': { type: 'string' },
+  suspended: { type: 'string' },
+  'per-page': { type: 'string' },
+  'max-installations': { type: 'string' },
+  'cache-directory': { type: 'string' },
+  'cache-ttl': { type: 'string' },
+  format: { type: 'string' },
+  verbose: { type: 'boolean' },
+  help: { type: 'boolean' }
+} as const
+
+/**
+ * Writes to the process streams.
+ */
+const processIO: CliIO = {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`)
+}
+
+/**
+ * Parses the command line arguments, falling back to environment variables
+ * for the credentials and API URL. The app ID and client ID are taken from
+ * the environment only when neither is given on the command line.
+ *
+ * @param argv - The arguments without the node and script paths
+ * @param env - The environment variables
+ * @returns The parsed options
+ * @throws InputError if an option is unknown, missing or invalid
+ */
+export function parseCliArgs(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env
+): CliOptions {
+  let values
+  try {
+    values = parseArgs({ args: argv, options: OPTIONS, strict: true }).values
+  } catch (error) {
+    throw new InputError(error instanceof Error ? error.message : String(error))
+  }
+
+  const fromArgs =
+    values['app-id'] !== undefined || values['client-id'] !== undefined
+  const appId = (fromArgs ? values['app-id'] : env.GITHUB_APP_ID) ?? ''
+  const clientId =
+    (fromArgs ? values['client-id'] : env.GITHUB_APP_CLIENT_ID) ?? ''
+  const privateKeyFile = values['private-key-file'] ?? ''
+  let identifier = ''
+  if (!values.help) {
+    if (appId.trim() === '' && clientId.trim() === '') {
+      throw new InputError(
+        'Missing --app-id or --client-id (or GITHUB_APP_ID or GITHUB_APP_CLIENT_ID)'
+      )
+    }
+    identifier = parseAppIdentifier('--app-id', appId, '--client-id', clientId)
+    if (privateKeyFile === '' && !env.GITHUB_APP_PRIVATE_KEY) {
+      throw new InputError(
+        'Missing --private-key-file (or GITHUB_APP_PRIVATE_KEY)'
+      )
+    }
+  }
+
+  return {
+    help: values.help ?? false,
+    verbose: values.verbose ?? false,
+    format: parseChoice('--format', values.format ?? '', CLI_FORMATS),
+    privateKeyFile,
+    list: {
+      appId: identifier,
+      client: {
+        ...DEFAULT_CLIENT_OPTIONS,
+        baseUrl: parseApiUrl(
+          '--api-url',
+          values['api-url'] ?? env.GITHUB_API_URL ?? DEFAULT_API_URL
+        ),
+        caCertificate: readCaCertificate(
+          '--ca-certificate',
+          values['ca-certificate'] ?? ''
+        )
+      },
+      pagination: {
+        ...DEFAULT_PAGINATION,
+        perPage: parseInteger(
+          '--per-page',
+          values['per-page'] ?? '',
+          DEFAULT_PAGINATION.perPage,
+          1,
+          100
+        ),
+        maxInstallations: parseInteger(
+          '--max-installations',
+          values['max-installations'] ?? '',
+          DEFAULT_PAGINATION.maxInstallations,
+          0
+        )
+      },
+      cache: {
+        directory: values['cache-directory'] ?? '',
+        ttlSeconds: parseInteger(
+          '--cache-ttl',
+          values['cache-ttl'] ?? '',
+          DEFAULT_CACHE_OPTIONS.ttlSeconds,
+          1
+        )
+      },
+      filter: {
+        include: (values.include ?? []).flatMap(splitList),
+        exclude: (values.exclude ?? []).flatMap(splitList),
+        accountTypes: parseAccountTypes(
+          '--account-types',
+          splitList(values['account-types'] ?? '')
+        ),
+        suspended: parseChoice(
+          '--suspended',
+          values.suspended ?? '',
+          SUSPENDED_MODES
+        )
+      }
+    }
+  }
+}
+
+/**
+ * Reads the private key file given on the command line.
+ *
+ * @param path - The path of the PEM file
+ * @returns A promise that resolves to the private key
+ * @throws InputError if the file cannot be read
+ */
+async function readPrivateKeyFile(path: string): Promise<string> {
+  try {
+    return await readFile(path, 'utf8')
+  } catch (error) {
+    throw new InputError(
+      `Invalid --private-key-file: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * Formats the installations as an aligned plain text table.
+ *
+ * @param installations - The selected installations
+ * @returns The table
+ */
+export function formatTable(installations: Installation[]): string {
+  const rows = [
+    ['ORGANIZATION', 'INSTALLATION ID', 'ACCOUNT TYPE', 'SUSPENDED'],
+    ...installations.map((installation) => [
+      accountLogin(installation),
+      String(installation.id),
+      accountType(installation),
+      installation.suspended_at ? 'yes' : 'no'
+    ])
+  ]
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  )
+
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n')
+}
+
+/**
+ * Runs the command line interface: lists the organizations and prints them
+ * to stdout, with progress and errors on stderr.
+ *
+ * @param argv - The arguments without the node and script paths
+ * @param io - The streams to write to
+ * @param env - The environment variables
+ * @returns A promise that resolves to the process exit code
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = processIO,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<number> {
+  try {
+    const options = parseCliArgs(argv, env)
+    if (options.help) {
+      io.stdout(USAGE)
+      return 0
+    }
+
+    const logger = createStreamLogger(io.stderr, options.verbose)
+    const passphrase = env.GITHUB_APP_PRIVATE_KEY_PASSPHRASE ?? ''
+    const privateKey = options.privateKeyFile
+      ? validatePrivateKey(
+          '--private-key-file',
+          await readPrivateKeyFile(options.privateKeyFile),
+          passphrase
+        )
+      : loadPrivateKey(
+          'GITHUB_APP_PRIVATE_KEY',
+          env.GITHUB_APP_PRIVATE_KEY ?? '',
+          passphrase
+        )
+
+    const { installations } = await listInstalledOrganizations({
+      ...options.list,
+      privateKey,
+      logger
+    })
+
+    io.stdout(
+      options.format === 'table'
+        ? formatTable(installations)
+        : formatResult(installations, options.format)
+    )
+    return 0
+  } catch (error) {
+    const { code, message, hint } = classifyError(error)
+    io.stderr(`Error: ${message}`)
+    io.stderr(`Hint: ${hint}`)
+    if (code === 'invalid-input') {
+      io.stderr('Run with --help for usage.')
+    }
+    return 1
+  }
+}
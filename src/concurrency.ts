@@ -0,0 +1,31 @@
+/**
+ * Maps every item through an asynchronous function, running at most `limit`
+ * calls at the same time. The results keep the order of the items.
+ *
+ * @param items - The items to map
+ * @param limit - The maximum number of calls in flight (at least 1)
+ * @param fn - The asynchronous function applied to every item
+ * @returns A promise that resolves to the results, rejecting with the first
+ * error thrown by `fn`
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker)
+  )
+
+  return results
+}
@@ -0,0 +1,291 @@
+import { mapConcurrent } from './concurrency.js'
+import { InputError } from './errors.js'
+import { accountLogin, accountType } from './filters.js'
+import { actionsLogger, type Logger } from './logger.js'
+import type { Installation, InstallationClientFactory } from './main.js'
+
+/**
+ * The largest number of dispatches sent at the same time
+ */
+export const MAX_DISPATCH_CONCURRENCY = 20
+
+/**
+ * Settings used to send a dispatch event to every organization. The
+ * repository and the string values of the payload are templates (see
+ * `renderTemplate`). A workflow dispatch is sent on `ref` when `workflow` is
+ * set, a repository dispatch otherwise.
+ */
+export interface DispatchOptions {
+  repository: string
+  eventType: string
+  workflow: string
+  ref: string
+  payload: Record<string, unknown>
+  concurrency: number
+  dryRun: boolean
+}
+
+/**
+ * Default dispatch settings (disabled).
+ */
+export const DEFAULT_DISPATCH_OPTIONS: DispatchOptions = {
+  repository: '',
+  eventType: 'installed-organization',
+  workflow: '',
+  ref: '',
+  payload: {},
+  concurrency: 5,
+  dryRun: false
+}
+
+/**
+ * Type definition for the outcome of one dispatch in the `dispatches` output
+ */
+export interface DispatchResult {
+  organization: string
+  repository: string
+  event: 'repository_dispatch' | 'workflow_dispatch'
+  status: 'sent' | 'dry-run' | 'failed'
+  payload: Record<string, unknown>
+  message: string | null
+}
+
+/**
+ * Type definition for Octokit with the dispatch APIs
+ */
+export interface OctokitWithDispatch {
+  rest: {
+    repos: {
+      createDispatchEvent: (params: {
+        owner: string
+        repo: string
+        event_type: string
+        client_payload?: Record<string, unknown>
+      }) => Promise<unknown>
+    }
+    actions: {
+      createWorkflowDispatch: (params: {
+        owner: string
+        repo: string
+        workflow_id: string
+        ref: string
+        inputs?: Record<string, unknown>
+      }) => Promise<unknown>
+    }
+  }
+}
+
+/**
+ * Lists the fields of an installation available to the templates.
+ *
+ * @param installation - The installation
+ * @returns The template fields
+ */
+export function templateFields(
+  installation: Installation
+): Record<string, string> {
+  return {
+    org: accountLogin(installation),
+    installation_id: String(installation.id),
+    account_id: String(installation.account?.id ?? ''),
+    account_type: accountType(installation),
+    repository_selection: installation.repository_selection ?? ''
+  }
+}
+
+/**
+ * Replaces the `{field}` placeholders of a template with the installation
+ * fields. Unknown placeholders are left as they are.
+ *
+ * @param template - The template
+ * @param fields - The template fields
+ * @returns The rendered string
+ */
+export function renderTemplate(
+  template: string,
+  fields: Record<string, string>
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.hasOwn(fields, name) ? fields[name] : placeholder
+  )
+}
+
+/**
+ * Renders every string of a payload, keeping its structure. Only values are
+ * rendered, so the fields cannot break the JSON.
+ *
+ * @param value - The payload or one of its values
+ * @param fields - The template fields
+ * @returns The rendered payload
+ */
+export function renderPayload(
+  value: unknown,
+  fields: Record<string, string>
+): unknown {
+  if (typeof value === 'string') {
+    return renderTemplate(value, fields)
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => renderPayload(entry, fields))
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        renderPayload(entry, fields)
+      ])
+    )
+  }
+
+  return value
+}
+
+/**
+ * Parses the payload template, a JSON object.
+ *
+ * @param name - The name of the input, used in errors
+ * @param value - The raw value
+ * @returns The payload template, empty when the value is empty
+ * @throws InputError if the value is not a JSON object
+ */
+export function parsePayloadTemplate(
+  name: string,
+  value: string
+): Record<string, unknown> {
+  if (value.trim() === '') {
+    return {}
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(value)
+  } catch (error) {
+    throw new InputError(
+      `Invalid ${name}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new InputError(`Invalid ${name}: expected a JSON object`)
+  }
+
+  return parsed as Record<string, unknown>
+}
+
+/**
+ * Checks that a payload template can be sent as the inputs of a workflow
+ * dispatch, which GitHub only accepts as a flat object of strings.
+ *
+ * @param name - The name of the input, used in errors
+ * @param payload - The payload template
+ * @throws InputError if a value is not a string
+ */
+export function validateWorkflowInputs(
+  name: string,
+  payload: Record<string, unknown>
+): void {
+  const invalid = Object.keys(payload).filter(
+    (key) => typeof payload[key] !== 'string'
+  )
+  if (invalid.length > 0) {
+    throw new InputError(
+      `Invalid ${name}: workflow inputs must be strings, got other values for ${invalid.join(', ')}`
+    )
+  }
+}
+
+/**
+ * Sends a `repository_dispatch` (or, with a workflow, a `workflow_dispatch`)
+ * to a repository of every organization, authenticating as its installation
+ * with at most `concurrency` requests in flight. A dispatch that fails is
+ * reported with a warning so the other organizations are still notified. In
+ * a dry run, the dispatches are only logged.
+ *
+ * @param installations - The installations to notify
+ * @param createClient - Creates a client authenticated as an installation
+ * @param options - The repository, event and payload templates
+ * @param logger - Receives the progress messages and warnings
+ * @returns A promise that resolves to the outcome of every dispatch
+ */
+export async function dispatchToOrganizations(
+  installations: Installation[],
+  createClient: InstallationClientFactory<OctokitWithDispatch>,
+  options: DispatchOptions,
+  logger: Logger = actionsLogger
+): Promise<DispatchResult[]> {
+  const event = options.workflow ? 'workflow_dispatch' : 'repository_dispatch'
+
+  const results = await mapConcurrent(
+    installations,
+    options.concurrency,
+    async (installation): Promise<DispatchResult> => {
+      const fields = templateFields(installation)
+      const repository = renderTemplate(options.repository, fields)
+      const payload = renderPayload(options.payload, fields) as Record<
+        string,
+        unknown
+      >
+      const result = {
+        organization: fields.org,
+        repository,
+        event,
+        payload
+      } as const
+
+      const [owner, repo, ...rest] = repository.split('/')
+      if (!owner || !repo || rest.length > 0) {
+        logger.warning(
+          `Cannot dispatch to ${fields.org}: "${repository}" is not an owner/repo name`
+        )
+        return {
+          ...result,
+          status: 'failed',
+          message: `Invalid repository: ${repository}`
+        }
+      }
+
+      if (options.dryRun) {
+        logger.info(
+          `Dry run: would send ${event} to ${repository} with ${JSON.stringify(payload)}`
+        )
+        return { ...result, status: 'dry-run', message: null }
+      }
+
+      try {
+        const client = (await createClient(
+          installation.id
+        )) as OctokitWithDispatch
+        if (options.workflow) {
+          await client.rest.actions.createWorkflowDispatch({
+            owner,
+            repo,
+            workflow_id: options.workflow,
+            ref: options.ref,
+            inputs: payload
+          })
+        } else {
+          await client.rest.repos.createDispatchEvent({
+            owner,
+            repo,
+            event_type: options.eventType,
+            client_payload: payload
+          })
+        }
+        logger.debug(`Sent ${event} to ${repository}`)
+        return { ...result, status: 'sent', message: null }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        logger.warning(`Could not send ${event} to ${repository}: ${message}`)
+        return { ...result, status: 'failed', message }
+      }
+    }
+  )
+
+  const sent = results.filter((result) => result.status === 'sent').length
+  logger.info(
+    options.dryRun
+      ? `Dry run: ${results.length} dispatches were not sent`
+      : `Sent ${sent} of ${results.length} dispatches`
+  )
+
+  return results
+}
@@ -0,0 +1,143 @@
+import { mapConcurrent } from './concurrency.js'
+import { accountLogin, accountType } from './filters.js'
+import { actionsLogger, type Logger } from './logger.js'
+import type { Installation, InstallationClientFactory } from './main.js'
+
+/**
+ * The largest number of organizations fetched at the same time
+ */
+export const MAX_ENRICH_CONCURRENCY = 20
+
+/**
+ * Settings used to fetch organization details.
+ */
+export interface EnrichOptions {
+  enabled: boolean
+  concurrency: number
+}
+
+/**
+ * Default enrichment settings (disabled).
+ */
+export const DEFAULT_ENRICH_OPTIONS: EnrichOptions = {
+  enabled: false,
+  concurrency: 5
+}
+
+/**
+ * Type definition for the organization details merged into the
+ * `installations` output. Fields the installation is not allowed to read
+ * (the plan needs organization administration access) are null.
+ */
+export interface OrganizationDetails {
+  name: string | null
+  plan: string | null
+  public_repos: number | null
+  private_repos: number | null
+  two_factor_requirement_enabled: boolean | null
+  created_at: string | null
+  default_repository_permission: string | null
+}
+
+/**
+ * Type definition for the `GET /orgs/{org}` response fields used for the
+ * details
+ */
+interface OrganizationResponse {
+  name?: string | null
+  plan?: { name: string }
+  public_repos?: number
+  total_private_repos?: number
+  owned_private_repos?: number
+  two_factor_requirement_enabled?: boolean | null
+  created_at?: string
+  default_repository_permission?: string | null
+}
+
+/**
+ * Type definition for Octokit with the organization API
+ */
+export interface OctokitWithOrganization {
+  rest: {
+    orgs: {
+      get: (params: { org: string }) => Promise<{ data: OrganizationResponse }>
+    }
+  }
+}
+
+/**
+ * Extracts the organization details from a `GET /orgs/{org}` response.
+ *
+ * @param data - The organization
+ * @returns The details, with missing fields set to null
+ */
+export function toOrganizationDetails(
+  data: OrganizationResponse
+): OrganizationDetails {
+  return {
+    name: data.name ?? null,
+    plan: data.plan?.name ?? null,
+    public_repos: data.public_repos ?? null,
+    private_repos: data.total_private_repos ?? data.owned_private_repos ?? null,
+    two_factor_requirement_enabled: data.two_factor_requirement_enabled ?? null,
+    created_at: data.created_at ?? null,
+    default_repository_permission: data.default_repository_permission ?? null
+  }
+}
+
+/**
+ * Fetches the details of every organization, authenticating as its
+ * installation, with at most `concurrency` requests in flight. An
+ * organization whose details cannot be read is reported with a warning and
+ * mapped to null, so one restricted organization does not fail the run. User
+ * accounts are skipped.
+ *
+ * @param installations - The organization installations
+ * @param createClient - Creates a client authenticated as an installation
+ * @param concurrency - The maximum number of organizations fetched at once
+ * @param logger - Receives the progress messages and warnings
+ * @returns A promise that resolves to a map of organization login to its
+ * details
+ */
+export async function getOrganizationDetails(
+  installations: Installation[],
+  createClient: InstallationClientFactory<OctokitWithOrganization>,
+  concurrency: number = DEFAULT_ENRICH_OPTIONS.concurrency,
+  logger: Logger = actionsLogger
+): Promise<Record<string, OrganizationDetails | null>> {
+  const organizations = installations.filter(
+    (installation) => accountType(installation) === 'Organization'
+  )
+
+  const details = await mapConcurrent(
+    organizations,
+    concurrency,
+    async (installation) => {
+      const org = accountLogin(installation)
+      try {
+        const client = await createClient(installation.id)
+        const { data } = await (
+          client as OctokitWithOrganization
+        ).rest.orgs.get({ org })
+        logger.debug(`Fetched details of ${org}`)
+        return toOrganizationDetails(data)
+      } catch (error) {
+        logger.warning(
+          `Could not fetch details of ${org}: ${error instanceof Error ? error.message : String(error)}`
+        )
+        return null
+      }
+    }
+  )
+
+  logger.info(
+    `Fetched details of ${details.filter((entry) => entry !== null).length} of ${organizations.length} organizations`
+  )
+
+  return Object.fromEntries(
+    organizations.map((installation, index) => [
+      accountLogin(installation),
+      details[index]
+    ])
+  )
+}
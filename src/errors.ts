@@ -0,0 +1,228 @@
+/**
+ * Stable identifiers for the failure types, exposed in the `error-code`
+ * output so workflows can branch on them
+ */
+export const ERROR_CODES = [
+  'invalid-input',
+  'invalid-private-key',
+  'bad-credentials',
+  'clock-skew',
+  'app-not-found',
+  'rate-limited',
+  'sso-required',
+  'forbidden',
+  'network-error',
+  'api-error',
+  'max-installations-exceeded',
+  'permission-drift',
+  'unhealthy-installations',
+  'dispatch-failed',
+  'unknown-error'
+] as const
+
+/**
+ * Type definition for an error code
+ */
+export type ErrorCode = (typeof ERROR_CODES)[number]
+
+/**
+ * An error raised by the action itself, carrying its error code.
+ */
+export class ActionError extends Error {
+  readonly code: ErrorCode
+
+  constructor(message: string, code: ErrorCode, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'ActionError'
+    this.code = code
+  }
+}
+
+/**
+ * An error raised when an input is missing or has an invalid value.
+ */
+export class InputError extends ActionError {
+  constructor(message: string) {
+    super(message, 'invalid-input')
+    this.name = 'InputError'
+  }
+}
+
+/**
+ * Type definition for the fields of an Octokit `RequestError` used for
+ * classification
+ */
+interface RequestErrorLike extends Error {
+  status: number
+  response?: { headers: Record<string, string | number | undefined> }
+}
+
+/**
+ * Type definition for a classified failure
+ */
+export interface ClassifiedError {
+  code: ErrorCode
+  message: string
+  hint: string
+}
+
+/**
+ * Remediation hints and message prefixes for each error code
+ */
+const DESCRIPTIONS: Record<ErrorCode, { prefix: string; hint: string }> = {
+  'invalid-input': {
+    prefix: 'Invalid input',
+    hint: 'Check the action inputs or command line options that were given.'
+  },
+  'invalid-private-key': {
+    prefix: 'Invalid private key',
+    hint: 'Pass the full contents of the PEM file downloaded from the GitHub App settings, including the BEGIN and END lines.'
+  },
+  'bad-credentials': {
+    prefix: 'Authentication failed',
+    hint: 'Check that the private key belongs to the GitHub App with the given app ID or client ID and has not been revoked.'
+  },
+  'clock-skew': {
+    prefix: 'Authentication failed because of clock skew',
+    hint: "The runner's clock differs from GitHub's; make sure the runner synchronizes its time (NTP)."
+  },
+  'app-not-found': {
+    prefix: 'GitHub App not found',
+    hint: 'Check the app ID or client ID and, on GitHub Enterprise, the API URL.'
+  },
+  'rate-limited': {
+    prefix: 'GitHub API rate limit exceeded',
+    hint: 'Wait for the rate limit to reset, allow more retries, or list the installations less often.'
+  },
+  'sso-required': {
+    prefix: 'SAML SSO authorization required',
+    hint: 'An organization enforces SAML single sign-on; authorize the credentials for that organization.'
+  },
+  forbidden: {
+    prefix: 'Access forbidden',
+    hint: 'Check the permissions of the GitHub App and any IP allow list of the organization.'
+  },
+  'network-error': {
+    prefix: 'Network error',
+    hint: 'Check the connection to the GitHub API, the API URL and, for private CAs, the CA certificate.'
+  },
+  'api-error': {
+    prefix: 'GitHub API error',
+    hint: 'Check https://www.githubstatus.com and retry.'
+  },
+  'max-installations-exceeded': {
+    prefix: 'Too many installations',
+    hint: 'Raise the maximum number of installations, or only warn when it is exceeded.'
+  },
+  'permission-drift': {
+    prefix: 'Permission drift detected',
+    hint: 'Ask the listed organizations to approve the pending permission request of the GitHub App.'
+  },
+  'unhealthy-installations': {
+    prefix: 'Unhealthy installations found',
+    hint: 'Check the health output; organizations with SAML SSO or an IP allow list may need to allow the GitHub App.'
+  },
+  'dispatch-failed': {
+    prefix: 'Dispatch failed',
+    hint: 'Check the dispatches output; the GitHub App needs contents: write (or actions: write for workflows) on the dispatch repository of every organization.'
+  },
+  'unknown-error': {
+    prefix: 'Unexpected error',
+    hint: 'Re-run with debug logging enabled for more details.'
+  }
+}
+
+/**
+ * Checks whether a value is an Octokit `RequestError`.
+ *
+ * @param error - The value to check
+ * @returns True if the value has an HTTP status
+ */
+function isRequestError(error: unknown): error is RequestErrorLike {
+  return (
+    error instanceof Error &&
+    typeof (error as Partial<RequestErrorLike>).status === 'number'
+  )
+}
+
+/**
+ * Determines the error code of an Octokit `RequestError` from its status,
+ * headers and message.
+ *
+ * @param error - The request error
+ * @returns The error code
+ */
+function classifyRequestError(error: RequestErrorLike): ErrorCode {
+  const headers = error.response?.headers ?? {}
+  const message = error.message.toLowerCase()
+
+  if (error.response === undefined) {
+    return 'network-error'
+  }
+  if (error.status === 401) {
+    return /'exp'|'iat'|expiration time|issued at/.test(message)
+      ? 'clock-skew'
+      : 'bad-credentials'
+  }
+  if (error.status === 404 && message.includes('integration not found')) {
+    return 'app-not-found'
+  }
+  if (
+    (error.status === 403 || error.status === 429) &&
+    (String(headers['x-ratelimit-remaining']) === '0' ||
+      message.includes('rate limit'))
+  ) {
+    return 'rate-limited'
+  }
+  if (error.status === 403 && headers['x-github-sso'] !== undefined) {
+    return 'sso-required'
+  }
+  if (error.status === 403) {
+    return 'forbidden'
+  }
+
+  return 'api-error'
+}
+
+/**
+ * Classifies a failure into a stable error code with a readable message and
+ * a remediation hint. Errors wrapping another error (through `cause`) are
+ * classified by the first error in the chain that is recognized.
+ *
+ * @param error - The thrown value
+ * @returns The classified error
+ */
+export function classifyError(error: unknown): ClassifiedError {
+  const message = error instanceof Error ? error.message : String(error)
+  let code: ErrorCode = 'unknown-error'
+
+  for (
+    let current: unknown = error;
+    current instanceof Error;
+    current = current.cause
+  ) {
+    if (current instanceof ActionError) {
+      code = current.code
+      break
+    }
+    if (isRequestError(current)) {
+      code = classifyRequestError(current)
+      break
+    }
+    if (current.message.startsWith('Input required and not supplied')) {
+      code = 'invalid-input'
+      break
+    }
+    if (/private ?key|pem|decoder|asn1|keydata/i.test(current.message)) {
+      code = 'invalid-private-key'
+      break
+    }
+    if (/ECONNREFUSED|ENOTFOUND|ETIMEDOUT|ECONNRESET/.test(current.message)) {
+      code = 'network-error'
+      break
+    }
+  }
+
+  const { prefix, hint } = DESCRIPTIONS[code]
+  return { code, message: `${prefix}: ${message}`, hint }
+}
@@ -0,0 +1,148 @@
+import { readFile } from 'fs/promises'
+import { InputError } from './errors.js'
+import { accountLogin } from './filters.js'
+import type { Installation } from './main.js'
+
+/**
+ * The webhook events that describe a change to an installation
+ */
+export const INSTALLATION_EVENTS = [
+  'installation',
+  'installation_repositories'
+] as const
+
+/**
+ * Type definition for an installation webhook event name
+ */
+export type InstallationEventName = (typeof INSTALLATION_EVENTS)[number]
+
+/**
+ * Type definition for the change described by an installation event
+ */
+export interface InstallationEvent {
+  event: InstallationEventName
+  action: string
+  installation: Installation
+  organization: string
+  repositoriesAdded: string[]
+  repositoriesRemoved: string[]
+}
+
+/**
+ * Type definition for the fields of a webhook payload used for the event
+ */
+interface InstallationPayload {
+  action?: string
+  installation?: Installation
+  repositories?: { full_name: string }[]
+  repositories_added?: { full_name: string }[]
+  repositories_removed?: { full_name: string }[]
+  client_payload?: InstallationPayload & {
+    event?: string
+    payload?: InstallationPayload
+  }
+}
+
+/**
+ * Checks whether an event name is an installation event.
+ *
+ * @param name - The event name
+ * @returns True for installation and installation_repositories
+ */
+function isInstallationEvent(name: string): name is InstallationEventName {
+  return (INSTALLATION_EVENTS as readonly string[]).includes(name)
+}
+
+/**
+ * Lists the full names of the repositories of a payload.
+ *
+ * @param repositories - The repositories, if any
+ * @returns The full names
+ */
+function fullNames(repositories: { full_name: string }[] = []): string[] {
+  return repositories.map((repository) => repository.full_name)
+}
+
+/**
+ * Extracts the installation change from a webhook payload. A
+ * `repository_dispatch` relays an installation event when its event type (or
+ * `client_payload.event`) is the name of the event, with the original payload
+ * as `client_payload` (or `client_payload.payload`).
+ *
+ * @param eventName - The name of the event that triggered the workflow
+ * @param payload - The event payload
+ * @returns The installation change, or null if the event is not an
+ * installation event
+ * @throws InputError if an installation event has no installation
+ */
+export function parseInstallationEvent(
+  eventName: string,
+  payload: InstallationPayload
+): InstallationEvent | null {
+  let event = eventName
+  let body = payload
+  if (eventName === 'repository_dispatch') {
+    event = payload.client_payload?.event ?? payload.action ?? ''
+    body = payload.client_payload?.payload ?? payload.client_payload ?? {}
+  }
+  if (!isInstallationEvent(event)) {
+    return null
+  }
+
+  const { installation } = body
+  if (installation === undefined || typeof installation.id !== 'number') {
+    throw new InputError(
+      `Invalid ${eventName} event: the payload has no installation`
+    )
+  }
+
+  const action = body.action ?? ''
+  const repositories = fullNames(body.repositories)
+  return {
+    event,
+    action,
+    installation,
+    organization: accountLogin(installation),
+    repositoriesAdded:
+      event === 'installation_repositories'
+        ? fullNames(body.repositories_added)
+        : action === 'created'
+          ? repositories
+          : [],
+    repositoriesRemoved:
+      event === 'installation_repositories'
+        ? fullNames(body.repositories_removed)
+        : action === 'deleted'
+          ? repositories
+          : []
+  }
+}
+
+/**
+ * Reads the installation change from the event that triggered the workflow.
+ *
+ * @param eventName - The event name (`GITHUB_EVENT_NAME`)
+ * @param eventPath - The path of the event payload (`GITHUB_EVENT_PATH`)
+ * @returns A promise that resolves to the installation change, or null if the
+ * workflow was not triggered by an installation event
+ * @throws InputError if the payload cannot be read
+ */
+export async function readInstallationEvent(
+  eventName: string,
+  eventPath: string
+): Promise<InstallationEvent | null> {
+  if (!isInstallationEvent(eventName) && eventName !== 'repository_dispatch') {
+    return null
+  }
+
+  let payload: InstallationPayload
+  try {
+    payload = JSON.parse(await readFile(eventPath, 'utf8'))
+  } catch (error) {
+    throw new InputError(
+      `Cannot read the ${eventName} event payload from GITHUB_EVENT_PATH: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  return parseInstallationEvent(eventName, payload)
+}
@@ -0,0 +1,229 @@
+import { InputError } from './errors.js'
+import { actionsLogger, type Logger } from './logger.js'
+import type { Installation } from './main.js'
+
+/**
+ * Account types a GitHub App can be installed on
+ */
+export const ACCOUNT_TYPES = ['Organization', 'User', 'Enterprise'] as const
+
+/**
+ * Type definition for an installation account type
+ */
+export type AccountType = (typeof ACCOUNT_TYPES)[number]
+
+/**
+ * How suspended installations are handled, the first one being the default
+ */
+export const SUSPENDED_MODES = ['exclude', 'include', 'only'] as const
+
+/**
+ * Type definition for the suspended installation handling
+ */
+export type SuspendedMode = (typeof SUSPENDED_MODES)[number]
+
+/**
+ * Settings used to select installations by account.
+ */
+export interface InstallationFilter {
+  include: string[]
+  exclude: string[]
+  accountTypes: AccountType[]
+  suspended: SuspendedMode
+}
+
+/**
+ * Default filter (every active organization installation).
+ */
+export const DEFAULT_FILTER: InstallationFilter = {
+  include: [],
+  exclude: [],
+  accountTypes: ['Organization'],
+  suspended: 'exclude'
+}
+
+/**
+ * Parses account type names, matching them case-insensitively.
+ *
+ * @param name - The name of the input or option, used in errors
+ * @param entries - The account type names
+ * @returns The selected account types (Organization when empty)
+ * @throws InputError if an unknown account type is given
+ */
+export function parseAccountTypes(
+  name: string,
+  entries: string[]
+): AccountType[] {
+  if (entries.length === 0) {
+    return [...DEFAULT_FILTER.accountTypes]
+  }
+
+  return entries.map((entry) => {
+    const type = ACCOUNT_TYPES.find(
+      (candidate) => candidate.toLowerCase() === entry.toLowerCase()
+    )
+    if (type === undefined) {
+      throw new InputError(
+        `Invalid ${name}: "${entry}" (expected one of: ${ACCOUNT_TYPES.join(', ')})`
+      )
+    }
+    return type
+  })
+}
+
+/**
+ * Returns the login of the account an installation belongs to. Enterprise
+ * accounts have a slug instead of a login.
+ *
+ * @param installation - The installation
+ * @returns The account login, or an empty string if there is no account
+ */
+export function accountLogin(installation: Installation): string {
+  return installation.account?.login ?? installation.account?.slug ?? ''
+}
+
+/**
+ * Returns the type of the account an installation belongs to. Enterprise
+ * accounts have no type, so the installation target type is used instead.
+ *
+ * @param installation - The installation
+ * @returns The account type, or an empty string if it is unknown
+ */
+export function accountType(installation: Installation): string {
+  return installation.account?.type ?? installation.target_type ?? ''
+}
+
+/**
+ * Checks whether an installation has been suspended.
+ *
+ * @param installation - The installation
+ * @returns True if the installation is suspended
+ */
+export function isSuspended(installation: Installation): boolean {
+  return Boolean(installation.suspended_at)
+}
+
+/**
+ * Compiles a login pattern. Patterns wrapped in slashes (e.g. `/^team-.+$/i`)
+ * are regular expressions; anything else is a case-insensitive glob where `*`
+ * matches any sequence of characters and `?` a single character.
+ *
+ * @param pattern - The glob or regular expression pattern
+ * @returns The compiled regular expression
+ * @throws InputError if the regular expression is invalid
+ */
+export function compilePattern(pattern: string): RegExp {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern)
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2])
+    } catch (error) {
+      throw new InputError(
+        `Invalid pattern ${pattern}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*'
+      if (char === '?') return '.'
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('')
+
+  return new RegExp(`^${source}$`, 'i')
+}
+
+/**
+ * Finds the first pattern that matches a login.
+ *
+ * @param login - The account login
+ * @param patterns - The glob or regular expression patterns
+ * @returns The matching pattern, or undefined if none matches
+ */
+function findMatch(login: string, patterns: string[]): string | undefined {
+  return patterns.find((pattern) => compilePattern(pattern).test(login))
+}
+
+/**
+ * Explains why an installation does not pass the filter. Exclude patterns take
+ * precedence over include patterns, and an empty include list matches every
+ * login.
+ *
+ * @param installation - The installation
+ * @param filter - The account types, login patterns and suspension handling
+ * to apply
+ * @returns The reason the installation is skipped, or null if it is kept
+ */
+export function getSkipReason(
+  installation: Installation,
+  filter: InstallationFilter = DEFAULT_FILTER
+): string | null {
+  if (installation.account === null) {
+    return 'no account'
+  }
+
+  const login = accountLogin(installation)
+  const type = accountType(installation)
+
+  if (!(filter.accountTypes as string[]).includes(type)) {
+    return `account type ${type || 'unknown'} is not in account-types`
+  }
+
+  const excludedBy = findMatch(login, filter.exclude)
+  if (excludedBy !== undefined) {
+    return `matches exclude pattern ${excludedBy}`
+  }
+
+  if (
+    filter.include.length > 0 &&
+    findMatch(login, filter.include) === undefined
+  ) {
+    return 'does not match any include pattern'
+  }
+
+  const suspended = isSuspended(installation)
+  if (suspended && filter.suspended === 'exclude') {
+    return 'installation is suspended'
+  }
+  if (!suspended && filter.suspended === 'only') {
+    return 'installation is not suspended'
+  }
+
+  return null
+}
+
+/**
+ * Selects the installations whose account matches the filter. Each dropped
+ * installation is explained in the debug log.
+ *
+ * @param installations - The installations to filter
+ * @param filter - The account types, login patterns and suspension handling
+ * to apply
+ * @param logger - Receives the reasons installations are dropped
+ * @returns The installations that pass the filter
+ */
+export function filterInstallations(
+  installations: Installation[],
+  filter: InstallationFilter = DEFAULT_FILTER,
+  logger: Logger = actionsLogger
+): Installation[] {
+  // Validate every pattern up front so a typo fails the step immediately
+  for (const pattern of [...filter.include, ...filter.exclude]) {
+    compilePattern(pattern)
+  }
+
+  return installations.filter((installation) => {
+    const reason = getSkipReason(installation, filter)
+    if (reason !== null) {
+      logger.debug(
+        `Skipping ${accountLogin(installation) || `installation ${installation.id}`}: ${reason}`
+      )
+      return false
+    }
+
+    return true
+  })
+}
@@ -0,0 +1,213 @@
+import { readFile } from 'fs/promises'
+import { Octokit } from 'octokit'
+import { InputError } from './errors.js'
+import { accountLogin } from './filters.js'
+import type { Installation } from './main.js'
+import type { Repository } from './repositories.js'
+
+/**
+ * Type definition for the API payloads replayed instead of the live API
+ */
+export interface Fixture {
+  app: {
+    id: number
+    slug: string
+    name: string
+    owner: { login: string }
+    installations_count?: number
+  }
+  installations: Installation[]
+  repositories: Record<string, Repository[]>
+  organizations: Record<string, object>
+}
+
+/**
+ * The app metadata used when the fixture does not include any
+ */
+const FIXTURE_APP: Fixture['app'] = {
+  id: 1,
+  slug: 'fixture',
+  name: 'Fixture',
+  owner: { login: 'fixture' }
+}
+
+/**
+ * The base URL of the replayed API, used in pagination links
+ */
+const FIXTURE_URL = 'https://fixture.invalid'
+
+/**
+ * Checks whether a value is a plain object.
+ *
+ * @param value - The value to check
+ * @returns True if the value is a non-array object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Reads the installation payloads to replay, either a plain JSON array of
+ * installations (such as a saved `GET /app/installations` response) or an
+ * object with `installations` and optional `app`, `repositories` (a map of
+ * organization login to repositories or full names) and `organizations` (a
+ * map of organization login to `GET /orgs/{org}` responses).
+ *
+ * @param path - The path of the fixture file
+ * @returns A promise that resolves to the fixture
+ * @throws InputError if the file cannot be read or is not a valid fixture
+ */
+export async function readFixture(path: string): Promise<Fixture> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(await readFile(path, 'utf8'))
+  } catch (error) {
+    throw new InputError(
+      `Invalid fixture-file: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  const content = Array.isArray(parsed) ? { installations: parsed } : parsed
+  if (
+    !isObject(content) ||
+    !Array.isArray(content.installations) ||
+    !content.installations.every(
+      (installation) =>
+        isObject(installation) && typeof installation.id === 'number'
+    )
+  ) {
+    throw new InputError(
+      'Invalid fixture-file: expected an array of installations, or an object with an installations array, each with a numeric id'
+    )
+  }
+
+  const repositories: Record<string, Repository[]> = {}
+  for (const [login, entries] of Object.entries(
+    isObject(content.repositories) ? content.repositories : {}
+  )) {
+    if (!Array.isArray(entries)) {
+      throw new InputError(
+        `Invalid fixture-file: the repositories of ${login} must be an array`
+      )
+    }
+    repositories[login.toLowerCase()] = entries.map((entry) =>
+      typeof entry === 'string' ? { full_name: entry } : entry
+    )
+  }
+
+  const organizations: Record<string, object> = {}
+  for (const [login, organization] of Object.entries(
+    isObject(content.organizations) ? content.organizations : {}
+  )) {
+    organizations[login.toLowerCase()] = organization as object
+  }
+
+  return {
+    app: isObject(content.app)
+      ? { ...FIXTURE_APP, ...(content.app as Partial<Fixture['app']>) }
+      : FIXTURE_APP,
+    installations: content.installations as Installation[],
+    repositories,
+    organizations
+  }
+}
+
+/**
+ * Builds a JSON response for a page of items, with a GitHub-style `Link`
+ * header when more pages are available.
+ *
+ * @param url - The request URL
+ * @param items - Every item of the listing
+ * @param wrap - Wraps the page of items into the response body
+ * @returns The response
+ */
+function paginate<T>(
+  url: URL,
+  items: T[],
+  wrap: (page: T[]) => unknown
+): Response {
+  const perPage = Number(url.searchParams.get('per_page') ?? 30) || 30
+  const page = Number(url.searchParams.get('page') ?? 1) || 1
+  const headers: Record<string, string> = {}
+  if (page * perPage < items.length) {
+    const next = new URL(url)
+    next.searchParams.set('page', String(page + 1))
+    headers.link = `<${next}>; rel="next"`
+  }
+
+  return Response.json(
+    wrap(items.slice((page - 1) * perPage, page * perPage)),
+    { headers }
+  )
+}
+
+/**
+ * Creates a fetch implementation that answers the API requests made by the
+ * action from the fixture. Requests outside the fixture get a 404.
+ *
+ * @param fixture - The replayed payloads
+ * @param installationId - The installation the client acts as, if any
+ * @returns A fetch function for Octokit's request options
+ */
+function createFixtureFetch(
+  fixture: Fixture,
+  installationId?: number
+): typeof fetch {
+  const installation = fixture.installations.find(
+    (entry) => entry.id === installationId
+  )
+  const login = installation ? accountLogin(installation).toLowerCase() : ''
+
+  return (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input)
+    const method = (init?.method ?? 'GET').toUpperCase()
+    const route = `${method} ${url.pathname}`
+
+    if (route === 'GET /app') {
+      return Response.json({
+        installations_count: fixture.installations.length,
+        ...fixture.app
+      })
+    }
+    if (route === 'GET /app/installations') {
+      return paginate(url, fixture.installations, (page) => page)
+    }
+    if (route === 'GET /installation/repositories' && installation) {
+      const repositories = fixture.repositories[login] ?? []
+      return paginate(url, repositories, (page) => ({
+        total_count: repositories.length,
+        repositories: page
+      }))
+    }
+    const org = /^GET \/orgs\/([^/]+)$/.exec(route)?.[1]
+    if (org && fixture.organizations[org.toLowerCase()]) {
+      return Response.json(fixture.organizations[org.toLowerCase()])
+    }
+
+    return Response.json(
+      { message: `Not Found in fixture-file: ${route}` },
+      { status: 404 }
+    )
+  }) as typeof fetch
+}
+
+/**
+ * Creates a client that replays the fixture in place of the live API, as the
+ * app or as one of its installations. No credentials are needed.
+ *
+ * @param fixture - The replayed payloads
+ * @param installationId - The installation to act as, or undefined for the
+ * app
+ * @returns An Octokit instance backed by the fixture
+ */
+export function createFixtureClient(
+  fixture: Fixture,
+  installationId?: number
+): Octokit {
+  return new Octokit({
+    baseUrl: FIXTURE_URL,
+    request: { fetch: createFixtureFetch(fixture, installationId) },
+    retry: { enabled: false },
+    throttle: { enabled: false }
+  })
+}
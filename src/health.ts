@@ -0,0 +1,173 @@
+import { mapConcurrent } from './concurrency.js'
+import { accountLogin, isSuspended } from './filters.js'
+import { actionsLogger, type Logger } from './logger.js'
+import type { Installation, InstallationClientFactory } from './main.js'
+
+/**
+ * The health of an installation, from best to worst understood
+ */
+export const HEALTH_STATUSES = [
+  'healthy',
+  'suspended',
+  'token-mint-failure',
+  'sso-blocked',
+  'ip-allowlist-blocked',
+  'request-failure'
+] as const
+
+/**
+ * Type definition for an installation health status
+ */
+export type HealthStatus = (typeof HEALTH_STATUSES)[number]
+
+/**
+ * The number of installations checked at the same time
+ */
+export const HEALTH_CHECK_CONCURRENCY = 5
+
+/**
+ * Type definition for the health of one installation in the `health` output
+ */
+export interface InstallationHealth {
+  installation_id: number
+  status: HealthStatus
+  message: string | null
+}
+
+/**
+ * Type definition for Octokit with installation authentication and the cheap
+ * call used to probe it
+ */
+export interface OctokitWithInstallationHealth {
+  auth: (options: { type: 'installation' }) => Promise<unknown>
+  rest: {
+    apps: {
+      listReposAccessibleToInstallation: (params: {
+        per_page: number
+      }) => Promise<unknown>
+    }
+  }
+}
+
+/**
+ * Determines why a request made for an installation failed. Organizations
+ * enforcing SAML SSO answer with an `X-GitHub-SSO` header and organizations
+ * with an IP allow list name it in the message; anything else is reported as
+ * the failure of the given stage.
+ *
+ * @param error - The thrown value
+ * @param fallback - The status used when the cause is not recognized
+ * @returns The health status
+ */
+export function classifyHealthError(
+  error: unknown,
+  fallback: HealthStatus
+): HealthStatus {
+  const message = error instanceof Error ? error.message : String(error)
+  const headers =
+    (error as { response?: { headers?: Record<string, unknown> } }).response
+      ?.headers ?? {}
+
+  if (/ip allow ?list/i.test(message)) {
+    return 'ip-allowlist-blocked'
+  }
+  if (headers['x-github-sso'] !== undefined || /\bsaml\b/i.test(message)) {
+    return 'sso-blocked'
+  }
+  if (/installation has been suspended/i.test(message)) {
+    return 'suspended'
+  }
+
+  return fallback
+}
+
+/**
+ * Checks a single installation: mints an installation token, then lists one
+ * repository with it.
+ *
+ * @param installation - The installation to check
+ * @param createClient - Creates a client authenticated as an installation
+ * @returns A promise that resolves to the health of the installation
+ */
+async function checkInstallation(
+  installation: Installation,
+  createClient: InstallationClientFactory<OctokitWithInstallationHealth>
+): Promise<InstallationHealth> {
+  const health = (status: HealthStatus, error?: unknown) => ({
+    installation_id: installation.id,
+    status,
+    message:
+      error === undefined
+        ? null
+        : error instanceof Error
+          ? error.message
+          : String(error)
+  })
+
+  if (isSuspended(installation)) {
+    return health('suspended')
+  }
+
+  let client: OctokitWithInstallationHealth
+  try {
+    client = (await createClient(
+      installation.id
+    )) as OctokitWithInstallationHealth
+    await client.auth({ type: 'installation' })
+  } catch (error) {
+    return health(classifyHealthError(error, 'token-mint-failure'), error)
+  }
+
+  try {
+    await client.rest.apps.listReposAccessibleToInstallation({ per_page: 1 })
+  } catch (error) {
+    return health(classifyHealthError(error, 'request-failure'), error)
+  }
+
+  return health('healthy')
+}
+
+/**
+ * Checks that every installation can still be used: a token can be minted for
+ * it and an authenticated call succeeds. Suspended installations are reported
+ * without any request. Each unhealthy installation is reported with a warning.
+ *
+ * @param installations - The installations to check
+ * @param createClient - Creates a client authenticated as an installation
+ * @param logger - Receives the progress messages and warnings
+ * @returns A promise that resolves to a map of account login to health
+ */
+export async function checkInstallationHealth(
+  installations: Installation[],
+  createClient: InstallationClientFactory<OctokitWithInstallationHealth>,
+  logger: Logger = actionsLogger
+): Promise<Record<string, InstallationHealth>> {
+  const results = await mapConcurrent(
+    installations,
+    HEALTH_CHECK_CONCURRENCY,
+    (installation) => checkInstallation(installation, createClient)
+  )
+
+  results.forEach((result, index) => {
+    const login = accountLogin(installations[index])
+    if (result.status === 'healthy') {
+      logger.debug(`Installation for ${login} is healthy`)
+    } else {
+      logger.warning(
+        `Installation for ${login} is ${result.status}${result.message === null ? '' : `: ${result.message}`}`
+      )
+    }
+  })
+
+  const unhealthy = results.filter((result) => result.status !== 'healthy')
+  logger.info(
+    `Checked ${results.length} installations: ${results.length - unhealthy.length} healthy, ${unhealthy.length} unhealthy`
+  )
+
+  return Object.fromEntries(
+    installations.map((installation, index) => [
+      accountLogin(installation),
+      results[index]
+    ])
+  )
+}
@@ -0,0 +1,161 @@
+import type { Octokit } from 'octokit'
+import { ActionError } from './errors.js'
+import { actionsLogger, type Logger } from './logger.js'
+
+/**
+ * The largest difference between the runner's clock and GitHub's that is
+ * reported, in seconds. JSON web tokens are issued 30 seconds in the past to
+ * allow for this much drift.
+ */
+export const MAX_CLOCK_SKEW_SECONDS = 30
+
+/**
+ * Type definition for the metadata of the authenticated GitHub App
+ */
+export interface AppIdentity {
+  id: number
+  client_id: string
+  slug: string
+  name: string
+  owner: string
+  installations_count: number | null
+}
+
+/**
+ * Type definition for the `GET /app` response fields used for the identity
+ */
+interface AuthenticatedApp {
+  id: number
+  client_id?: string
+  slug?: string
+  name: string
+  owner: { login?: string } | null
+  installations_count?: number
+}
+
+/**
+ * Type definition for Octokit with the authenticated app API
+ */
+export interface OctokitWithAppIdentity {
+  rest: {
+    apps: {
+      getAuthenticated: () => Promise<{
+        data: AuthenticatedApp | null
+        headers?: { date?: string }
+      }>
+    }
+  }
+}
+
+/**
+ * Computes how far the runner's clock is ahead of GitHub's, from the `date`
+ * header of a response.
+ *
+ * @param date - The value of the `date` response header, if any
+ * @param now - The current time in milliseconds
+ * @returns The difference in seconds (negative if the runner is behind), or
+ * null if the header is missing or invalid
+ */
+export function getClockSkew(
+  date: string | undefined,
+  now: number = Date.now()
+): number | null {
+  const serverTime = Date.parse(date ?? '')
+  if (Number.isNaN(serverTime)) {
+    return null
+  }
+  return Math.round((now - serverTime) / 1000)
+}
+
+/**
+ * Describes a clock skew for log and error messages.
+ *
+ * @param skew - The difference in seconds
+ * @returns The description, e.g. "45s ahead of"
+ */
+function describeSkew(skew: number): string {
+  return `${Math.abs(skew)}s ${skew > 0 ? 'ahead of' : 'behind'}`
+}
+
+/**
+ * Authenticates as the GitHub App with a JSON web token and fetches its own
+ * metadata, before any installation is listed. A private key that does not
+ * belong to the app and a runner clock that invalidates the token are
+ * reported with a precise message.
+ *
+ * @param octokit - An Octokit client authenticated as the GitHub App
+ * @param appId - The expected GitHub App ID or client ID
+ * @param logger - Receives the identity and clock skew warnings
+ * @returns A promise that resolves to the app metadata
+ * @throws ActionError with the clock-skew or bad-credentials code if the
+ * token is rejected, or if the app does not match the app ID or client ID
+ */
+export async function getAppIdentity(
+  octokit: Octokit | OctokitWithAppIdentity,
+  appId: string,
+  logger: Logger = actionsLogger
+): Promise<AppIdentity> {
+  let response: Awaited<
+    ReturnType<OctokitWithAppIdentity['rest']['apps']['getAuthenticated']>
+  >
+  try {
+    response = await (
+      octokit as OctokitWithAppIdentity
+    ).rest.apps.getAuthenticated()
+  } catch (error) {
+    const { status, response: failed } = error as {
+      status?: number
+      response?: { headers?: { date?: string } }
+    }
+    if (status !== 401) {
+      throw error
+    }
+
+    const message = error instanceof Error ? error.message : String(error)
+    const skew = getClockSkew(failed?.headers?.date)
+    if (skew !== null && Math.abs(skew) > MAX_CLOCK_SKEW_SECONDS) {
+      throw new ActionError(
+        `The runner clock is ${describeSkew(skew)} GitHub's, so the JSON web token for app ${appId} was rejected: ${message}`,
+        'clock-skew',
+        { cause: error }
+      )
+    }
+    throw new ActionError(
+      `The private key does not belong to app ${appId}, or has been revoked: ${message}`,
+      'bad-credentials',
+      { cause: error }
+    )
+  }
+
+  const { data, headers } = response
+  if (
+    data === null ||
+    (String(data.id) !== appId && data.client_id !== appId)
+  ) {
+    throw new ActionError(
+      `The private key belongs to app ${data?.id ?? 'unknown'} (${data?.slug ?? 'unknown'}), not to app ${appId}`,
+      'bad-credentials'
+    )
+  }
+
+  const skew = getClockSkew(headers?.date)
+  if (skew !== null && Math.abs(skew) > MAX_CLOCK_SKEW_SECONDS) {
+    logger.warning(
+      `The runner clock is ${describeSkew(skew)} GitHub's; JSON web tokens may be rejected`
+    )
+  }
+
+  const identity: AppIdentity = {
+    id: data.id,
+    client_id: data.client_id ?? '',
+    slug: data.slug ?? '',
+    name: data.name,
+    owner: data.owner?.login ?? '',
+    installations_count: data.installations_count ?? null
+  }
+  logger.info(
+    `Authenticated as ${identity.name} (${identity.slug}, app ${identity.id}) owned by ${identity.owner}`
+  )
+
+  return identity
+}
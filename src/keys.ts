@@ -0,0 +1,188 @@
+import { createPrivateKey, type KeyObject } from 'crypto'
+import { existsSync, readFileSync } from 'fs'
+import { ActionError, InputError } from './errors.js'
+
+/**
+ * The smallest RSA key size accepted, in bits. GitHub generates 2048-bit keys.
+ */
+export const MIN_KEY_SIZE = 2048
+
+/**
+ * Matches the name of an environment variable
+ */
+const ENV_NAME = /^[A-Z_][A-Z0-9_]*$/
+
+/**
+ * Matches base64 encoded content
+ */
+const BASE64 = /^[A-Za-z0-9+/=\s]+$/
+
+/**
+ * Matches the BEGIN and END lines of a PEM block
+ */
+const PEM_BLOCK = /-----BEGIN ([A-Z ]+)-----[\s\S]+?-----END ([A-Z ]+)-----/
+
+/**
+ * Creates the error for an invalid private key.
+ *
+ * @param name - The name of the input or option the key comes from
+ * @param reason - What is wrong with the key
+ * @returns The error
+ */
+function invalidKey(name: string, reason: string): ActionError {
+  return new ActionError(`Invalid ${name}: ${reason}`, 'invalid-private-key')
+}
+
+/**
+ * Resolves a private key given as PEM content, as base64 encoded PEM content
+ * or as a path to a PEM file. Escaped `\n` sequences are turned into line
+ * breaks.
+ *
+ * @param name - The name of the input or option, used in errors
+ * @param raw - The trimmed key, base64 content or path
+ * @returns The PEM content
+ * @throws ActionError if the key cannot be found
+ */
+function resolveKeyContent(name: string, raw: string): string {
+  let pem: string
+
+  if (raw.includes('-----BEGIN')) {
+    pem = raw
+  } else if (
+    BASE64.test(raw) &&
+    Buffer.from(raw, 'base64').toString('utf8').includes('-----BEGIN')
+  ) {
+    pem = Buffer.from(raw, 'base64').toString('utf8')
+  } else {
+    try {
+      pem = readFileSync(raw, 'utf8')
+    } catch {
+      throw invalidKey(
+        name,
+        'expected a PEM encoded key, a base64 encoded key, the name of an environment variable or the path to a key file'
+      )
+    }
+  }
+
+  return pem.replace(/\\n/g, '\n').trim()
+}
+
+/**
+ * Resolves a private key given as PEM content, as the name of an environment
+ * variable holding it, as base64 encoded PEM content or as a path to a PEM
+ * file. The value of an environment variable is not resolved as the name of
+ * another one.
+ *
+ * @param name - The name of the input or option, used in errors
+ * @param value - The key, environment variable name, base64 content or path
+ * @param env - The environment variables
+ * @returns The PEM content
+ * @throws InputError if the value names an environment variable that is not
+ * set
+ * @throws ActionError if the key cannot be found
+ */
+export function resolvePrivateKey(
+  name: string,
+  value: string,
+  env: NodeJS.ProcessEnv = process.env
+): string {
+  const raw = value.trim()
+
+  if (ENV_NAME.test(raw) && !existsSync(raw)) {
+    const content = env[raw]?.trim()
+    if (!content) {
+      throw new InputError(
+        `Invalid ${name}: the environment variable ${raw} is not set`
+      )
+    }
+    return resolveKeyContent(`${name} (environment variable ${raw})`, content)
+  }
+
+  return resolveKeyContent(name, raw)
+}
+
+/**
+ * Checks that a private key is a PEM encoded RSA key of at least
+ * MIN_KEY_SIZE bits, decrypting it with the passphrase if needed.
+ *
+ * @param name - The name of the input or option, used in errors
+ * @param pem - The PEM content
+ * @param passphrase - The passphrase of an encrypted key
+ * @returns The unencrypted key in PKCS#8 format
+ * @throws ActionError with a precise reason if the key is not usable
+ */
+export function validatePrivateKey(
+  name: string,
+  pem: string,
+  passphrase: string = ''
+): string {
+  const block = PEM_BLOCK.exec(pem)
+  if (block === null) {
+    throw invalidKey(name, 'no complete PEM block (BEGIN and END lines) found')
+  }
+  if (block[1] !== block[2]) {
+    throw invalidKey(
+      name,
+      `the BEGIN ${block[1]} and END ${block[2]} lines do not match`
+    )
+  }
+  if (!block[1].includes('PRIVATE KEY')) {
+    throw invalidKey(name, `expected a private key, got a ${block[1]}`)
+  }
+
+  const encrypted =
+    block[1] === 'ENCRYPTED PRIVATE KEY' ||
+    pem.includes('Proc-Type: 4,ENCRYPTED')
+  if (encrypted && passphrase === '') {
+    throw invalidKey(
+      name,
+      'the key is encrypted; a passphrase is needed to decrypt it'
+    )
+  }
+
+  let key: KeyObject
+  try {
+    key = createPrivateKey({ key: block[0], format: 'pem', passphrase })
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw invalidKey(
+      name,
+      encrypted
+        ? `the key cannot be decrypted with the passphrase (${reason})`
+        : `the key cannot be parsed (${reason})`
+    )
+  }
+
+  if (key.asymmetricKeyType !== 'rsa') {
+    throw invalidKey(
+      name,
+      `expected an RSA key, got ${key.asymmetricKeyType ?? 'an unknown'} key`
+    )
+  }
+  const size = key.asymmetricKeyDetails?.modulusLength ?? 0
+  if (size < MIN_KEY_SIZE) {
+    throw invalidKey(
+      name,
+      `the key is ${size} bits, at least ${MIN_KEY_SIZE} bits are required`
+    )
+  }
+
+  return key.export({ type: 'pkcs8', format: 'pem' }) as string
+}
+
+/**
+ * Loads and validates a private key from any of the supported sources.
+ *
+ * @param name - The name of the input or option, used in errors
+ * @param value - The key, environment variable name, base64 content or path
+ * @param passphrase - The passphrase of an encrypted key
+ * @returns The unencrypted key in PKCS#8 format
+ * @throws ActionError if the key cannot be found or is not usable
+ */
+export function loadPrivateKey(
+  name: string,
+  value: string,
+  passphrase: string = ''
+): string {
+  return validatePrivateKey(name, resolvePrivateKey(name, value), passphrase)
+}
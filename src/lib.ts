@@ -0,0 +1,23 @@
+/**
+ * The entrypoint for the library. This file exports the functions to list the
+ * organizations of a GitHub App outside GitHub Actions.
+ */
+export {
+  DEFAULT_API_URL,
+  DEFAULT_CLIENT_OPTIONS,
+  DEFAULT_PAGINATION,
+  convertPrivateKeyFormat,
+  listInstalledOrganizations,
+  toInstallationSummary,
+  type ClientOptions,
+  type Installation,
+  type InstallationSummary,
+  type ListOptions,
+  type ListResult,
+  type PaginationOptions
+} from './main.js'
+export { DEFAULT_FILTER, type InstallationFilter } from './filters.js'
+export { DEFAULT_CACHE_OPTIONS, type CacheOptions } from './cache.js'
+export { createStreamLogger, type Logger } from './logger.js'
+export { DEFAULT_RETRY, RateLimitTracker, type RetryOptions } from './retry.js'
+export { classifyError } from './errors.js'
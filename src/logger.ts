@@ -0,0 +1,46 @@
+import * as core from '@actions/core'
+
+/**
+ * Receives the log messages of the installation listing, so it can be used
+ * outside GitHub Actions.
+ */
+export interface Logger {
+  debug(message: string): void
+  info(message: string): void
+  warning(message: string): void
+  isDebug(): boolean
+}
+
+/**
+ * Logs through the GitHub Actions workflow commands.
+ */
+export const actionsLogger: Logger = {
+  debug: (message) => core.debug(message),
+  info: (message) => core.info(message),
+  warning: (message) => core.warning(message),
+  isDebug: () => core.isDebug()
+}
+
+/**
+ * Creates a logger that writes plain text lines, e.g. to stderr so the result
+ * printed on stdout can be piped.
+ *
+ * @param write - Writes a line
+ * @param verbose - Whether informational and debug messages are written
+ * @returns The logger
+ */
+export function createStreamLogger(
+  write: (line: string) => void,
+  verbose: boolean = false
+): Logger {
+  return {
+    debug: (message) => {
+      if (verbose) write(`debug: ${message}`)
+    },
+    info: (message) => {
+      if (verbose) write(message)
+    },
+    warning: (message) => write(`warning: ${message}`),
+    isDebug: () => verbose
+  }
+}
@@ -1,88 +1,921 @@
 import * as core from '@actions/core'
 import { Octokit } from 'octokit'
 import { createAppAuth } from '@octokit/auth-app'
-import { createPrivateKey } from 'crypto'
+import { readFileSync } from 'fs'
+import { rootCertificates } from 'tls'
+import { parse } from 'yaml'
+import { ActionError, InputError, classifyError } from './errors.js'
+import {
+  Agent,
+  fetch as undiciFetch,
+  type RequestInit as UndiciRequestInit
+} from 'undici'
+import { createInstallationTokens, type TokenOptions } from './tokens.js'
+import {
+  DEFAULT_FILTER,
+  SUSPENDED_MODES,
+  accountLogin,
+  accountType,
+  filterInstallations,
+  isSuspended,
+  parseAccountTypes,
+  type AccountType,
+  type InstallationFilter
+} from './filters.js'
+import {
+  REPOSITORY_FLAG_MODES,
+  getInstallationRepositories,
+  type RepositoryFilter
+} from './repositories.js'
+import { PERMISSION_LEVELS, auditPermissions } from './permissions.js'
+import { MATRIX_JOB_LIMIT, buildMatrix, type MatrixOptions } from './matrix.js'
+import { writeJobSummary } from './summary.js'
+import {
+  buildAppBreakdown,
+  deduplicateInstallations,
+  parseAppCredentials,
+  parseAppIdentifier,
+  type AppCredentials,
+  type AppCredentialsInput
+} from './apps.js'
+import { loadPrivateKey, validatePrivateKey } from './keys.js'
+import { getAppIdentity, type AppIdentity } from './identity.js'
+import {
+  DEFAULT_ENRICH_OPTIONS,
+  MAX_ENRICH_CONCURRENCY,
+  getOrganizationDetails,
+  type EnrichOptions,
+  type OrganizationDetails
+} from './enrich.js'
+import {
+  OUTPUT_FORMATS,
+  exportResult,
+  formatResult,
+  setJsonOutput,
+  type OutputOptions
+} from './output.js'
+import {
+  diffOrganizations,
+  readSnapshot,
+  writeSnapshot,
+  type SnapshotOptions
+} from './snapshot.js'
+import { actionsLogger, type Logger } from './logger.js'
+import { createFixtureClient, readFixture } from './fixture.js'
+import { readInstallationEvent, type InstallationEvent } from './events.js'
+import { checkInstallationHealth } from './health.js'
+import {
+  DEFAULT_DISPATCH_OPTIONS,
+  MAX_DISPATCH_CONCURRENCY,
+  dispatchToOrganizations,
+  parsePayloadTemplate,
+  validateWorkflowInputs,
+  type DispatchOptions
+} from './dispatch.js'
+import {
+  DEFAULT_CACHE_OPTIONS,
+  ResponseCache,
+  cachedRequest,
+  type CacheOptions
+} from './cache.js'
+import {
+  DEFAULT_RETRY,
+  RateLimitTracker,
+  createRetryingFetch,
+  type RetryOptions
+} from './retry.js'
 
 /**
- * Converts a PKCS#1 private key to PKCS#8 format if needed.
+ * Validates a private key and converts it to PKCS#8 format if needed.
  *
  * @param privateKey - The private key in PEM format
  * @returns The private key in PKCS#8 format
+ * @throws ActionError (invalid-private-key) if the key is not a usable RSA key
  */
 export function convertPrivateKeyFormat(privateKey: string): string {
-  // Check if the key is in PKCS#1 format (RSA PRIVATE KEY)
-  if (privateKey.includes('BEGIN RSA PRIVATE KEY')) {
-    core.info('Converting private key from PKCS#1 to PKCS#8 format')
+  return validatePrivateKey('privateKey', privateKey)
+}
+
+/**
+ * Pagination settings used when listing installations.
+ */
+export interface PaginationOptions {
+  perPage: number
+  maxInstallations: number
+  maxInstallationsBehavior: 'warn' | 'fail'
+}
+
+/**
+ * Default pagination settings (GitHub's maximum page size, no limit).
+ */
+export const DEFAULT_PAGINATION: PaginationOptions = {
+  perPage: 100,
+  maxInstallations: 0,
+  maxInstallationsBehavior: 'warn'
+}
+
+/**
+ * The public GitHub REST API URL
+ */
+export const DEFAULT_API_URL = 'https://api.github.com'
+
+/**
+ * Connection settings for the GitHub API.
+ */
+export interface ClientOptions {
+  baseUrl: string
+  caCertificate: string
+  retry: RetryOptions
+}
+
+/**
+ * Default connection settings (api.github.com with Node's bundled root CAs).
+ */
+export const DEFAULT_CLIENT_OPTIONS: ClientOptions = {
+  baseUrl: DEFAULT_API_URL,
+  caCertificate: '',
+  retry: DEFAULT_RETRY
+}
+
+/**
+ * Type definition for the validated action inputs
+ */
+export interface ActionInputs {
+  apps: AppCredentials[]
+  client: ClientOptions
+  pagination: PaginationOptions
+  filter: InstallationFilter
+  createTokens: boolean
+  tokenOptions: TokenOptions
+  listRepositories: boolean
+  repositoryFilter: RepositoryFilter
+  requiredPermissions: Record<string, string>
+  failOnDrift: boolean
+  matrix: MatrixOptions
+  jobSummary: boolean
+  output: OutputOptions
+  snapshot: SnapshotOptions
+  enrich: EnrichOptions
+  cache: CacheOptions
+  fixtureFile: string
+  eventMode: boolean
+  healthCheck: boolean
+  failOnUnhealthy: boolean
+  dispatch: DispatchOptions
+}
+
+/**
+ * Parses an optional integer input and validates its range.
+ *
+ * @param name - The name of the input
+ * @param defaultValue - The value to use when the input is empty
+ * @param min - The minimum allowed value
+ * @param max - The maximum allowed value
+ * @returns The parsed integer
+ * @throws InputError if the input is not an integer within the allowed range
+ */
+export function getIntegerInput(
+  name: string,
+  defaultValue: number,
+  min: number,
+  max: number = Number.MAX_SAFE_INTEGER
+): number {
+  return parseInteger(name, core.getInput(name), defaultValue, min, max)
+}
+
+/**
+ * Parses an optional integer value and validates its range.
+ *
+ * @param name - The name of the input or option, used in errors
+ * @param value - The raw value
+ * @param defaultValue - The value to use when the raw value is empty
+ * @param min - The minimum allowed value
+ * @param max - The maximum allowed value
+ * @returns The parsed integer
+ * @throws InputError if the value is not an integer within the allowed range
+ */
+export function parseInteger(
+  name: string,
+  value: string,
+  defaultValue: number,
+  min: number,
+  max: number = Number.MAX_SAFE_INTEGER
+): number {
+  const raw = value.trim()
+  if (raw === '') {
+    return defaultValue
+  }
+
+  const parsed = Number(raw)
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new InputError(
+      `Invalid ${name}: "${raw}" (expected an integer between ${min} and ${max})`
+    )
+  }
+
+  return parsed
+}
+
+/**
+ * Parses an optional input restricted to a fixed set of values.
+ *
+ * @param name - The name of the input
+ * @param allowed - The accepted values, the first one being the default
+ * @returns The selected value
+ * @throws InputError if the input is not one of the accepted values
+ */
+export function getChoiceInput<T extends string>(
+  name: string,
+  allowed: readonly T[]
+): T {
+  return parseChoice(name, core.getInput(name), allowed)
+}
+
+/**
+ * Parses an optional value restricted to a fixed set of values.
+ *
+ * @param name - The name of the input or option, used in errors
+ * @param value - The raw value
+ * @param allowed - The accepted values, the first one being the default
+ * @returns The selected value
+ * @throws InputError if the value is not one of the accepted values
+ */
+export function parseChoice<T extends string>(
+  name: string,
+  value: string,
+  allowed: readonly T[]
+): T {
+  const raw = value.trim().toLowerCase()
+  if (raw === '') {
+    return allowed[0]
+  }
+
+  if (!(allowed as readonly string[]).includes(raw)) {
+    throw new InputError(
+      `Invalid ${name}: "${raw}" (expected one of: ${allowed.join(', ')})`
+    )
+  }
+
+  return raw as T
+}
+
+/**
+ * Parses an optional boolean input. Unlike `core.getBooleanInput`, an empty
+ * value is treated as `false`.
+ *
+ * @param name - The name of the input
+ * @returns The parsed boolean
+ * @throws InputError if the input is not a recognized boolean value
+ */
+export function getFlagInput(name: string): boolean {
+  const raw = core.getInput(name).trim().toLowerCase()
+  if (raw === '' || raw === 'false') {
+    return false
+  }
+  if (raw === 'true') {
+    return true
+  }
+
+  throw new InputError(`Invalid ${name}: "${raw}" (expected true or false)`)
+}
+
+/**
+ * Parses an optional list input with entries separated by commas or newlines.
+ *
+ * @param name - The name of the input
+ * @returns The non-empty, trimmed entries
+ */
+export function getListInput(name: string): string[] {
+  return splitList(core.getInput(name))
+}
+
+/**
+ * Splits a list value with entries separated by commas or newlines.
+ *
+ * @param value - The raw value
+ * @returns The non-empty, trimmed entries
+ */
+export function splitList(value: string): string[] {
+  return value
+    .split(/[,\n]/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '')
+}
+
+/**
+ * Parses an optional permission map input, given either as a JSON object or
+ * as `name: level` pairs separated by commas or newlines.
+ *
+ * @param name - The name of the input
+ * @returns The permission levels keyed by permission name
+ * @throws InputError if the input cannot be parsed
+ */
+export function getPermissionsInput(name: string): Record<string, string> {
+  const raw = core.getInput(name).trim()
+  if (raw === '') {
+    return {}
+  }
+
+  let entries: [string, unknown][]
+  if (raw.startsWith('{')) {
     try {
-      // Use Node.js crypto to properly convert the key
-      const keyObject = createPrivateKey(privateKey)
-      return keyObject.export({
-        type: 'pkcs8',
-        format: 'pem'
-      }) as string
+      entries = Object.entries(JSON.parse(raw))
     } catch (error) {
-      core.warning(
-        `Failed to convert private key: ${error instanceof Error ? error.message : String(error)}`
+      throw new InputError(
+        `Invalid ${name}: ${error instanceof Error ? error.message : String(error)}`
       )
-      // Return original key if conversion fails
-      return privateKey
     }
+  } else {
+    entries = getListInput(name).map((pair) => {
+      const separator = pair.indexOf(':')
+      if (separator === -1) {
+        throw new InputError(
+          `Invalid ${name}: "${pair}" (expected a "permission: level" pair)`
+        )
+      }
+      return [pair.slice(0, separator).trim(), pair.slice(separator + 1)]
+    })
   }
 
-  // Key is already in PKCS#8 format or another format
-  return privateKey
+  return toPermissionLevels(name, entries)
 }
 
 /**
- * Retrieves and validates the required inputs for the action.
+ * Parses an optional permission manifest input, a YAML (or JSON) mapping of
+ * permission names to levels.
  *
- * @returns An object containing the validated appId and privateKey
- * @throws Error if either app-id or private-key is missing
+ * @param name - The name of the input
+ * @returns The permission levels keyed by permission name
+ * @throws InputError if the input is not a flat mapping
  */
-export function getInputs(): { appId: string; privateKey: string } {
-  const appId = core.getInput('app-id', { required: true })
-  let privateKey = core.getInput('private-key', { required: true })
+export function getPermissionManifestInput(
+  name: string
+): Record<string, string> {
+  const raw = core.getInput(name)
+  if (raw.trim() === '') {
+    return {}
+  }
 
-  // Convert key format if needed
-  privateKey = convertPrivateKeyFormat(privateKey)
+  let manifest: unknown
+  try {
+    manifest = parse(raw)
+  } catch (error) {
+    throw new InputError(
+      `Invalid ${name}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+  if (
+    typeof manifest !== 'object' ||
+    manifest === null ||
+    Array.isArray(manifest)
+  ) {
+    throw new InputError(
+      `Invalid ${name}: expected a mapping of permission names to levels`
+    )
+  }
 
-  return { appId, privateKey }
+  return toPermissionLevels(name, Object.entries(manifest))
+}
+
+/**
+ * Checks that every permission has a level and normalizes the levels to lower
+ * case.
+ *
+ * @param name - The name of the input, used in errors
+ * @param entries - The permission names and levels
+ * @returns The permission levels keyed by permission name
+ * @throws InputError if a level is missing or not a string
+ */
+function toPermissionLevels(
+  name: string,
+  entries: [string, unknown][]
+): Record<string, string> {
+  const permissions: Record<string, string> = {}
+  for (const [permission, level] of entries) {
+    if (typeof level !== 'string' || level.trim() === '') {
+      throw new InputError(`Invalid ${name}: missing level for "${permission}"`)
+    }
+    permissions[permission] = level.trim().toLowerCase()
+  }
+
+  return permissions
+}
+
+/**
+ * Resolves the GitHub API URL from the input, falling back to the runner's
+ * `GITHUB_API_URL` and then to api.github.com.
+ *
+ * @param name - The name of the input
+ * @returns The API URL without trailing slash
+ * @throws InputError if the value is not an HTTP(S) URL
+ */
+export function getApiUrlInput(name: string): string {
+  return parseApiUrl(
+    name,
+    core.getInput(name).trim() ||
+      process.env.GITHUB_API_URL?.trim() ||
+      DEFAULT_API_URL
+  )
+}
+
+/**
+ * Validates a GitHub API URL.
+ *
+ * @param name - The name of the input or option, used in errors
+ * @param raw - The URL
+ * @returns The API URL without trailing slash
+ * @throws InputError if the value is not an HTTP(S) URL
+ */
+export function parseApiUrl(name: string, raw: string): string {
+  let url: URL
+  try {
+    url = new URL(raw)
+  } catch {
+    throw new InputError(`Invalid ${name}: "${raw}" (expected a URL)`)
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new InputError(`Invalid ${name}: "${raw}" (expected an http(s) URL)`)
+  }
+
+  return raw.replace(/\/+$/, '')
+}
+
+/**
+ * Reads a CA certificate given either as PEM content or as a path to a PEM
+ * file.
+ *
+ * @param name - The name of the input
+ * @returns The PEM encoded certificate(s), or an empty string if not set
+ * @throws InputError if the file cannot be read or contains no certificate
+ */
+export function getCaCertificateInput(name: string): string {
+  return readCaCertificate(name, core.getInput(name))
+}
+
+/**
+ * Reads a CA certificate given either as PEM content or as a path to a PEM
+ * file.
+ *
+ * @param name - The name of the input or option, used in errors
+ * @param value - The PEM content or file path
+ * @returns The PEM encoded certificate(s), or an empty string if not set
+ * @throws InputError if the file cannot be read or contains no certificate
+ */
+export function readCaCertificate(name: string, value: string): string {
+  const raw = value.trim()
+  if (raw === '') {
+    return ''
+  }
+
+  let pem = raw
+  if (!raw.includes('-----BEGIN CERTIFICATE-----')) {
+    try {
+      pem = readFileSync(raw, 'utf8')
+    } catch (error) {
+      throw new InputError(
+        `Invalid ${name}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  if (!pem.includes('-----BEGIN CERTIFICATE-----')) {
+    throw new InputError(`Invalid ${name}: no PEM encoded certificate found`)
+  }
+
+  return pem.replace(/\\n/g, '\n')
+}
+
+/**
+ * Parses the account types input, matching type names case-insensitively.
+ *
+ * @param name - The name of the input
+ * @returns The selected account types (Organization when empty)
+ * @throws InputError if an unknown account type is given
+ */
+export function getAccountTypesInput(name: string): AccountType[] {
+  return parseAccountTypes(name, getListInput(name))
+}
+
+/**
+ * The highest app number with inputs in action.yml (app-id-5)
+ */
+const NUMBERED_APP_INPUTS = 5
+
+/**
+ * Reads the credentials of the GitHub Apps to list installations for, either
+ * from the apps input or from app-id (or client-id) and private-key followed
+ * by the numbered app-id-2 and private-key-2, app-id-3 and private-key-3, and
+ * so on. Every private key is loaded and validated up front.
+ *
+ * @returns The app credentials, with unencrypted private keys in PKCS#8 format
+ * @throws Error if app-id and client-id are both missing or both set, if
+ * private-key is missing, if the apps input is invalid, or if a private key
+ * cannot be loaded
+ */
+export function getAppCredentialsInputs(): AppCredentials[] {
+  const raw = core.getInput('apps').trim()
+  let apps: AppCredentialsInput[]
+
+  if (raw !== '') {
+    apps = parseAppCredentials('apps', raw)
+  } else {
+    apps = []
+    for (
+      let index = 1;
+      index === 1 ||
+      core.getInput(`app-id-${index}`) !== '' ||
+      core.getInput(`client-id-${index}`) !== '';
+      index++
+    ) {
+      const suffix = index === 1 ? '' : `-${index}`
+      const appId = parseAppIdentifier(
+        `app-id${suffix}`,
+        core.getInput(`app-id${suffix}`),
+        `client-id${suffix}`,
+        core.getInput(`client-id${suffix}`)
+      )
+      apps.push({
+        name: `app-${appId}`,
+        appId,
+        privateKey: core.getInput(`private-key${suffix}`, { required: true }),
+        passphrase: core.getInput(`private-key-passphrase${suffix}`),
+        keyInput: `private-key${suffix}`
+      })
+    }
+
+    // The numbered inputs stop at the first gap; reject apps after one
+    const missing = apps.length + 1
+    for (let index = missing + 1; index <= NUMBERED_APP_INPUTS; index++) {
+      const set = [`app-id-${index}`, `client-id-${index}`].find(
+        (name) => core.getInput(name) !== ''
+      )
+      if (set !== undefined) {
+        throw new InputError(
+          `${set} is set but app-id-${missing} and client-id-${missing} are not; number the apps without gaps`
+        )
+      }
+    }
+  }
+
+  return apps.map(({ name, appId, privateKey, passphrase, keyInput }) => {
+    if (passphrase) {
+      core.setSecret(passphrase)
+    }
+    return {
+      name,
+      appId,
+      privateKey: loadPrivateKey(keyInput, privateKey, passphrase)
+    }
+  })
+}
+
+/**
+ * Retrieves and validates the inputs for the action. No app credentials are
+ * read when a fixture file is replayed.
+ *
+ * @returns An object containing the validated credentials and settings
+ * @throws Error if no app credentials are given, or if an optional input has
+ * an invalid value
+ */
+export function getInputs(): ActionInputs {
+  const fixtureFile = core.getInput('fixture-file').trim()
+  const apps = fixtureFile ? [] : getAppCredentialsInputs()
+
+  const client: ClientOptions = {
+    baseUrl: getApiUrlInput('github-api-url'),
+    caCertificate: getCaCertificateInput('ca-certificate'),
+    retry: {
+      ...DEFAULT_RETRY,
+      maxRetries: getIntegerInput(
+        'max-retries',
+        DEFAULT_RETRY.maxRetries,
+        0,
+        10
+      ),
+      baseDelaySeconds: getIntegerInput(
+        'retry-delay',
+        DEFAULT_RETRY.baseDelaySeconds,
+        0,
+        60
+      )
+    }
+  }
+
+  const pagination: PaginationOptions = {
+    perPage: getIntegerInput('per-page', DEFAULT_PAGINATION.perPage, 1, 100),
+    maxInstallations: getIntegerInput(
+      'max-installations',
+      DEFAULT_PAGINATION.maxInstallations,
+      0
+    ),
+    maxInstallationsBehavior: getChoiceInput('max-installations-behavior', [
+      'warn',
+      'fail'
+    ])
+  }
+
+  const filter: InstallationFilter = {
+    include: getListInput('include'),
+    exclude: getListInput('exclude'),
+    accountTypes: getAccountTypesInput('account-types'),
+    suspended: getChoiceInput('suspended', SUSPENDED_MODES)
+  }
+
+  const createTokens = getFlagInput('create-tokens')
+  if (createTokens && fixtureFile) {
+    throw new InputError('create-tokens cannot be used with fixture-file')
+  }
+  const tokenOptions: TokenOptions = {
+    repositories: getListInput('token-repositories'),
+    permissions: getPermissionsInput('token-permissions')
+  }
+
+  const listRepositories = getFlagInput('list-repositories')
+  const repositoryFilter: RepositoryFilter = {
+    archived: getChoiceInput('repository-archived', REPOSITORY_FLAG_MODES),
+    forks: getChoiceInput('repository-forks', REPOSITORY_FLAG_MODES),
+    visibility: getListInput('repository-visibility').map((visibility) => {
+      const value = visibility.toLowerCase()
+      if (!['public', 'private', 'internal'].includes(value)) {
+        throw new InputError(
+          `Invalid repository-visibility: "${visibility}" (expected one of: public, private, internal)`
+        )
+      }
+      return value
+    }),
+    topics: getListInput('repository-topics')
+  }
+
+  const requiredPermissions = getPermissionManifestInput('required-permissions')
+  for (const [permission, level] of Object.entries(requiredPermissions)) {
+    if (!(PERMISSION_LEVELS as readonly string[]).includes(level)) {
+      throw new InputError(
+        `Invalid required-permissions: "${permission}: ${level}" (expected one of: ${PERMISSION_LEVELS.join(', ')})`
+      )
+    }
+  }
+  const failOnDrift = getFlagInput('fail-on-drift')
+
+  const matrix: MatrixOptions = {
+    batchSize: getIntegerInput('batch-size', 0, 0, MATRIX_JOB_LIMIT),
+    batchIndex:
+      core.getInput('batch-index').trim() === ''
+        ? null
+        : getIntegerInput('batch-index', 0, 0)
+  }
+
+  const jobSummary = getFlagInput('job-summary')
+
+  const output: OutputOptions = {
+    format: getChoiceInput('output-format', OUTPUT_FORMATS),
+    file: core.getInput('output-file').trim()
+  }
+
+  const snapshot: SnapshotOptions = {
+    previous: core.getInput('previous-snapshot').trim(),
+    file: core.getInput('snapshot-file').trim()
+  }
+
+  const enrich: EnrichOptions = {
+    enabled: getFlagInput('enrich'),
+    concurrency: getIntegerInput(
+      'enrich-concurrency',
+      DEFAULT_ENRICH_OPTIONS.concurrency,
+      1,
+      MAX_ENRICH_CONCURRENCY
+    )
+  }
+
+  const cache: CacheOptions = {
+    directory: core.getInput('cache-directory').trim(),
+    ttlSeconds: getIntegerInput(
+      'cache-ttl',
+      DEFAULT_CACHE_OPTIONS.ttlSeconds,
+      1
+    )
+  }
+
+  const dispatch: DispatchOptions = {
+    repository: core.getInput('dispatch-repository').trim(),
+    eventType:
+      core.getInput('dispatch-event-type').trim() ||
+      DEFAULT_DISPATCH_OPTIONS.eventType,
+    workflow: core.getInput('dispatch-workflow').trim(),
+    ref: core.getInput('dispatch-ref').trim(),
+    payload: parsePayloadTemplate(
+      'dispatch-payload',
+      core.getInput('dispatch-payload')
+    ),
+    concurrency: getIntegerInput(
+      'dispatch-concurrency',
+      DEFAULT_DISPATCH_OPTIONS.concurrency,
+      1,
+      MAX_DISPATCH_CONCURRENCY
+    ),
+    dryRun: getFlagInput('dispatch-dry-run')
+  }
+  if (dispatch.workflow) {
+    if (!dispatch.ref) {
+      throw new InputError('dispatch-ref is required with dispatch-workflow')
+    }
+    validateWorkflowInputs('dispatch-payload', dispatch.payload)
+  }
+  if (dispatch.repository && fixtureFile && !dispatch.dryRun) {
+    throw new InputError(
+      'dispatch-repository can only be used with fixture-file in a dry run (dispatch-dry-run)'
+    )
+  }
+
+  return {
+    apps,
+    client,
+    pagination,
+    filter,
+    createTokens,
+    tokenOptions,
+    listRepositories,
+    repositoryFilter,
+    requiredPermissions,
+    failOnDrift,
+    matrix,
+    jobSummary,
+    output,
+    snapshot,
+    enrich,
+    cache,
+    fixtureFile,
+    eventMode: getFlagInput('event-mode'),
+    healthCheck: getFlagInput('health-check'),
+    failOnUnhealthy: getFlagInput('fail-on-unhealthy'),
+    dispatch
+  }
+}
+
+/**
+ * Lists the CA certificates trusted when a custom CA is configured: Node's
+ * bundled root certificates followed by the given ones, so endpoints using a
+ * public CA (such as a proxy in front of api.github.com) keep working.
+ *
+ * @param caCertificate - The PEM encoded CA certificate(s)
+ * @returns The trusted CA certificates
+ */
+export function trustedCertificates(caCertificate: string): string[] {
+  return [...rootCertificates, caCertificate]
+}
+
+/**
+ * Creates a fetch implementation that trusts the given CA certificate in
+ * addition to Node's bundled root certificates.
+ *
+ * @param caCertificate - The PEM encoded CA certificate(s)
+ * @returns A fetch function for Octokit's request options
+ */
+function createFetchWithCa(caCertificate: string): typeof fetch {
+  const dispatcher = new Agent({
+    connect: { ca: trustedCertificates(caCertificate) }
+  })
+
+  // undici ships its own copy of the fetch types, which differ from the
+  // global ones only in members Octokit does not use
+  return async (input, init) =>
+    (await undiciFetch(input instanceof Request ? input.url : input, {
+      ...(init as UndiciRequestInit),
+      dispatcher
+    })) as Response
 }
 
 /**
  * Creates an authenticated Octokit client using GitHub App credentials.
+ * Transient failures are retried by the client's fetch, which replaces the
+ * retry and throttling plugins bundled with Octokit.
  *
- * @param appId - The GitHub App ID
+ * @param appId - The GitHub App ID or client ID, used as the JWT issuer
  * @param privateKey - The GitHub App private key in PEM format
+ * @param options - The API URL, optional CA certificate and retry settings
+ * @param rateLimit - Receives the rate limit budget reported by the API
+ * @param logger - Receives the retry warnings and per-request debug lines
  * @returns An authenticated Octokit instance
  */
 export function createOctokitClient(
   appId: string,
-  privateKey: string
+  privateKey: string,
+  options: ClientOptions = DEFAULT_CLIENT_OPTIONS,
+  rateLimit: RateLimitTracker = new RateLimitTracker(),
+  logger: Logger = actionsLogger
 ): Octokit {
+  const baseFetch = options.caCertificate
+    ? createFetchWithCa(options.caCertificate)
+    : globalThis.fetch
+
   return new Octokit({
     authStrategy: createAppAuth,
     auth: {
       appId,
       privateKey
-    }
+    },
+    baseUrl: options.baseUrl,
+    request: {
+      fetch: createRetryingFetch(
+        baseFetch,
+        options.retry,
+        rateLimit,
+        undefined,
+        logger
+      )
+    },
+    retry: { enabled: false },
+    throttle: { enabled: false }
   })
 }
 
+/**
+ * Creates a client authenticated as one of the app's installations. The
+ * installation token is minted and refreshed by the app authentication, and
+ * the client uses the same API URL, CA and retry settings as the app client.
+ *
+ * @param octokit - An Octokit client authenticated as the GitHub App
+ * @param installationId - The ID of the installation
+ * @returns A promise that resolves to an Octokit instance for the installation
+ */
+export async function createInstallationClient(
+  octokit: Octokit,
+  installationId: number
+): Promise<Octokit> {
+  const { baseUrl, request } = octokit.request.endpoint.DEFAULTS
+
+  return (await octokit.auth({
+    type: 'installation',
+    installationId,
+    factory: (auth: object) =>
+      new Octokit({
+        authStrategy: createAppAuth,
+        auth,
+        baseUrl,
+        request: { fetch: request?.fetch },
+        retry: { enabled: false },
+        throttle: { enabled: false }
+      })
+  })) as Octokit
+}
+
 /**
  * Type definition for an installation account
  */
 interface InstallationAccount {
-  login: string
-  type: 'User' | 'Organization'
+  id?: number
+  login?: string
+  slug?: string
+  type?: 'User' | 'Organization'
 }
 
 /**
  * Type definition for an installation
  */
-interface Installation {
+export interface Installation {
   id: number
   account: InstallationAccount | null
+  target_type?: string
+  repository_selection?: 'all' | 'selected'
+  permissions?: Record<string, string | undefined>
+  events?: string[]
+  created_at?: string
+  updated_at?: string
+  suspended_at?: string | null
+  suspended_by?: { login: string } | null
+}
+
+/**
+ * Creates a client authenticated as the given installation. `Client` describes
+ * the APIs the caller uses, so tests can pass a smaller object than Octokit.
+ */
+export type InstallationClientFactory<Client> = (
+  installationId: number
+) => Promise<Octokit | Client>
+
+/**
+ * Per-installation metadata exposed through the `installations` output
+ */
+export interface InstallationSummary {
+  installation_id: number
+  account_id: number | null
+  account_login: string
+  account_type: string
+  repository_selection: 'all' | 'selected' | null
+  permissions: Record<string, string>
+  events: string[]
+  created_at: string | null
+  updated_at: string | null
+  suspended_at: string | null
+  suspended_by: string | null
+  organization?: OrganizationDetails | null
+}
+
+/**
+ * Type definition for a single page of installations
+ */
+interface InstallationPage {
+  data: Installation[]
+  headers?: { link?: string; etag?: string }
 }
 
 /**
@@ -91,53 +924,366 @@ interface Installation {
 interface OctokitWithApps {
   rest: {
     apps: {
-      listInstallations: () => Promise<{ data: Installation[] }>
+      listInstallations: (params?: {
+        per_page?: number
+        page?: number
+        headers?: Record<string, string>
+      }) => Promise<InstallationPage>
     }
   }
 }
 
 /**
- * Retrieves all organization installations for the authenticated GitHub App.
+ * Checks whether a `Link` response header points to a next page.
+ *
+ * @param link - The value of the `Link` header, if any
+ * @returns True if another page is available
+ */
+function hasNextPage(link: string | undefined): boolean {
+  return link !== undefined && /rel="next"/.test(link)
+}
+
+/**
+ * Retrieves every installation of the authenticated GitHub App, following
+ * pagination until the last page or the configured limit is reached. With a
+ * cache, every page is requested conditionally on its cached ETag.
  *
  * @param octokit - An authenticated Octokit client (with apps API)
- * @returns A promise that resolves to an array of organization login names
+ * @param options - Page size and optional installation limit
+ * @param logger - Receives the progress messages
+ * @param cache - The response cache, or null to always fetch every page
+ * @returns A promise that resolves to all retrieved installations
+ * @throws ActionError if the limit is reached and the behavior is set to `fail`
  */
-export async function getOrganizationInstallations(
-  octokit: Octokit | OctokitWithApps
-): Promise<string[]> {
-  // Retrieve all installations for the GitHub App
-  const { data: installations } = await (
-    octokit as OctokitWithApps
-  ).rest.apps.listInstallations()
+export async function listAllInstallations(
+  octokit: Octokit | OctokitWithApps,
+  options: PaginationOptions = DEFAULT_PAGINATION,
+  logger: Logger = actionsLogger,
+  cache: ResponseCache | null = null
+): Promise<Installation[]> {
+  const { perPage, maxInstallations, maxInstallationsBehavior } = options
+  const installations: Installation[] = []
+  let page = 0
+  let morePages = true
+
+  while (morePages) {
+    page++
+    const { data, headers } = await cachedRequest(
+      cache,
+      `GET /app/installations?per_page=${perPage}&page=${page}`,
+      (conditional) =>
+        (octokit as OctokitWithApps).rest.apps.listInstallations({
+          per_page: perPage,
+          page,
+          ...(Object.keys(conditional).length > 0 && { headers: conditional })
+        }),
+      logger
+    )
+
+    installations.push(...data)
+    morePages = hasNextPage(headers?.link) && data.length > 0
+    logger.debug(`Fetched page ${page} with ${data.length} installations`)
 
+    if (maxInstallations > 0 && installations.length >= maxInstallations) {
+      const truncated = installations.length > maxInstallations || morePages
+      if (truncated) {
+        const message = `Reached max-installations limit of ${maxInstallations}; remaining installations were not retrieved`
+        if (maxInstallationsBehavior === 'fail') {
+          throw new ActionError(message, 'max-installations-exceeded')
+        }
+        logger.warning(message)
+      }
+      installations.length = maxInstallations
+      break
+    }
+  }
+
+  logger.info(
+    `Fetched ${installations.length} installations across ${page} page(s)`
+  )
+
+  return installations
+}
+
+/**
+ * Selects the organization installations from the retrieved installations,
+ * logging the counts before and after filtering.
+ *
+ * @param installations - Every retrieved installation
+ * @param filter - Account types and login patterns to select installations by
+ * @param logger - Receives the counts and installation details
+ * @returns The matching installations
+ */
+export function selectOrganizationInstallations(
+  installations: Installation[],
+  filter: InstallationFilter = DEFAULT_FILTER,
+  logger: Logger = actionsLogger
+): Installation[] {
   // Log total installation count
-  core.info(`Found ${installations.length} total installations`)
+  logger.info(`Found ${installations.length} total installations`)
 
   // Add debug logging for detailed installation information
-  if (core.isDebug()) {
-    core.debug('Installation details:')
+  if (logger.isDebug()) {
+    logger.debug('Installation details:')
     installations.forEach((inst: Installation) => {
-      core.debug(
-        `  - ID: ${inst.id}, Account: ${inst.account?.login || 'null'}, Type: ${inst.account?.type || 'null'}`
+      logger.debug(
+        `  - ID: ${inst.id}, Account: ${accountLogin(inst) || 'null'}, Type: ${accountType(inst) || 'null'}`
       )
     })
   }
 
-  // Filter for organization installations and extract login names
-  const orgNames = (installations as Installation[])
-    .filter((installation: Installation) => {
-      // Safely check if account exists and type is Organization
-      return installation.account?.type === 'Organization'
-    })
-    .map((installation: Installation) => {
-      // Extract login name (we know account exists due to filter)
-      return installation.account!.login
-    })
+  // Filter by account type and login patterns
+  const orgInstallations = filterInstallations(installations, filter, logger)
 
   // Log organization count
-  core.info(`Found ${orgNames.length} organization installations`)
+  logger.info(`Found ${orgInstallations.length} organization installations`)
+
+  return orgInstallations
+}
+
+/**
+ * Retrieves the organization installations of the authenticated GitHub App.
+ *
+ * @param octokit - An authenticated Octokit client (with apps API)
+ * @param options - Page size and optional installation limit
+ * @param filter - Account types and login patterns to select installations by
+ * @returns A promise that resolves to the matching installations
+ */
+export async function findOrganizationInstallations(
+  octokit: Octokit | OctokitWithApps,
+  options: PaginationOptions = DEFAULT_PAGINATION,
+  filter: InstallationFilter = DEFAULT_FILTER
+): Promise<Installation[]> {
+  // Retrieve all installations for the GitHub App
+  const installations = await listAllInstallations(octokit, options)
+
+  return selectOrganizationInstallations(installations, filter)
+}
+
+/**
+ * Retrieves all organization installations for the authenticated GitHub App.
+ *
+ * @param octokit - An authenticated Octokit client (with apps API)
+ * @param options - Page size and optional installation limit
+ * @param filter - Account types and login patterns to select installations by
+ * @returns A promise that resolves to an array of organization login names
+ */
+export async function getOrganizationInstallations(
+  octokit: Octokit | OctokitWithApps,
+  options: PaginationOptions = DEFAULT_PAGINATION,
+  filter: InstallationFilter = DEFAULT_FILTER
+): Promise<string[]> {
+  const installations = await findOrganizationInstallations(
+    octokit,
+    options,
+    filter
+  )
+
+  return installations.map(accountLogin)
+}
+
+/**
+ * Options for listing the organizations a GitHub App is installed on
+ */
+export interface ListOptions {
+  appId: string
+  privateKey: string
+  octokit?: Octokit
+  client?: ClientOptions
+  pagination?: PaginationOptions
+  filter?: InstallationFilter
+  rateLimit?: RateLimitTracker
+  cache?: CacheOptions
+  logger?: Logger
+}
+
+/**
+ * Type definition for the organizations a GitHub App is installed on
+ */
+export interface ListResult {
+  octokit: Octokit
+  identity: AppIdentity
+  cacheHit: boolean
+  retrieved: Installation[]
+  installations: Installation[]
+  organizations: string[]
+  suspended: Installation[]
+}
+
+/**
+ * Lists the organizations a GitHub App is installed on. This is the entry
+ * point shared by the action and the command line interface, and does not
+ * depend on action inputs or outputs.
+ *
+ * @param options - The app credentials (or an existing app client),
+ * connection, pagination, filter and cache settings, and the logger to report
+ * progress to
+ * @returns A promise that resolves to the app metadata, whether every page
+ * of installations was served from the cache, every retrieved installation,
+ * the selected installations and their logins, the suspended installations
+ * that match the filter (whether or not suspended installations are
+ * selected) and the app client for further requests
+ */
+export async function listInstalledOrganizations(
+  options: ListOptions
+): Promise<ListResult> {
+  const logger = options.logger ?? actionsLogger
+  const client = options.client ?? DEFAULT_CLIENT_OPTIONS
+  const filter = options.filter ?? DEFAULT_FILTER
+
+  // Create authenticated Octokit client, rejecting unusable keys up front
+  const octokit =
+    options.octokit ??
+    createOctokitClient(
+      options.appId,
+      validatePrivateKey('privateKey', options.privateKey),
+      client,
+      options.rateLimit,
+      logger
+    )
+  logger.debug(`Using GitHub API at ${client.baseUrl}`)
+
+  // Check that the key belongs to the app before listing anything
+  const identity = await getAppIdentity(octokit, options.appId, logger)
+
+  // Get organization installations, keeping suspended ones for reporting
+  const cacheOptions = options.cache ?? DEFAULT_CACHE_OPTIONS
+  const cache = cacheOptions.directory
+    ? new ResponseCache(cacheOptions, `${client.baseUrl} ${options.appId}`)
+    : null
+  const retrieved = await listAllInstallations(
+    octokit,
+    options.pagination,
+    logger,
+    cache
+  )
+  if (cache !== null) {
+    logger.info(
+      `Cache: ${cache.hits} page(s) not modified, ${cache.misses} page(s) fetched`
+    )
+  }
+  const matching = selectOrganizationInstallations(
+    retrieved,
+    { ...filter, suspended: 'include' },
+    logger
+  )
+  const suspended = matching.filter(isSuspended)
+  suspended.forEach((installation) => {
+    logger.info(
+      `Installation for ${accountLogin(installation)} is suspended since ${installation.suspended_at} by ${installation.suspended_by?.login ?? 'unknown'}`
+    )
+  })
+
+  const installations = filterInstallations(matching, filter, logger)
+
+  return {
+    octokit,
+    identity,
+    cacheHit: cache?.allHits ?? false,
+    retrieved,
+    installations,
+    organizations: installations.map(accountLogin),
+    suspended
+  }
+}
+
+/**
+ * Describes a suspended installation for the `suspended-organizations` output.
+ *
+ * @param installation - A suspended installation
+ * @returns The account login with the suspension details
+ */
+export function toSuspendedOrganization(installation: Installation): {
+  login: string
+  installation_id: number
+  suspended_at: string | null
+  suspended_by: string | null
+} {
+  return {
+    login: accountLogin(installation),
+    installation_id: installation.id,
+    suspended_at: installation.suspended_at ?? null,
+    suspended_by: installation.suspended_by?.login ?? null
+  }
+}
+
+/**
+ * Converts an installation into the object exposed by the `installations`
+ * output. Fields missing from the API response are normalized to `null` or
+ * empty values so every object has the same shape.
+ *
+ * @param installation - An installation
+ * @returns The installation metadata
+ */
+export function toInstallationSummary(
+  installation: Installation
+): InstallationSummary {
+  const permissions: Record<string, string> = {}
+  for (const [name, level] of Object.entries(installation.permissions ?? {})) {
+    if (level !== undefined) {
+      permissions[name] = level
+    }
+  }
 
-  return orgNames
+  return {
+    installation_id: installation.id,
+    account_id: installation.account?.id ?? null,
+    account_login: accountLogin(installation),
+    account_type: accountType(installation),
+    repository_selection: installation.repository_selection ?? null,
+    permissions,
+    events: installation.events ?? [],
+    created_at: installation.created_at ?? null,
+    updated_at: installation.updated_at ?? null,
+    suspended_at: installation.suspended_at ?? null,
+    suspended_by: installation.suspended_by?.login ?? null
+  }
+}
+
+/**
+ * Sets the outputs for a single installation event. The `organizations`,
+ * `installations` and `matrix` outputs list the affected organization when it
+ * passes the filter and is still installed and active after the event.
+ *
+ * @param event - The installation change
+ * @param filter - Account types and login patterns to select installations by
+ * @param format - The format of the organizations output
+ * @param matrixOptions - The batch settings of the matrix outputs
+ */
+function reportInstallationEvent(
+  event: InstallationEvent,
+  filter: InstallationFilter,
+  format: OutputOptions['format'],
+  matrixOptions: MatrixOptions
+): void {
+  core.info(
+    `Handling ${event.event}.${event.action} for ${event.organization} (installation ${event.installation.id}) without listing every installation`
+  )
+  core.setOutput('event-action', event.action)
+  core.setOutput('event-organization', event.organization)
+  core.setOutput('event-installation-id', String(event.installation.id))
+  core.setOutput('repositories-added', JSON.stringify(event.repositoriesAdded))
+  core.setOutput(
+    'repositories-removed',
+    JSON.stringify(event.repositoriesRemoved)
+  )
+
+  const active = !['deleted', 'suspend'].includes(event.action)
+  const selected = active
+    ? filterInstallations([event.installation], {
+        ...filter,
+        suspended: 'include'
+      })
+    : []
+  core.setOutput('organizations', formatResult(selected, format))
+  core.setOutput(
+    'installations',
+    JSON.stringify(selected.map(toInstallationSummary))
+  )
+  const { matrix, batches } = buildMatrix(selected, matrixOptions)
+  core.setOutput('matrix', JSON.stringify(matrix))
+  core.setOutput('batches', JSON.stringify(batches))
+  core.setOutput('batch-count', String(batches.length))
 }
 
 /**
@@ -146,50 +1292,298 @@ export async function getOrganizationInstallations(
  * @returns Resolves when the action is complete.
  */
 export async function run(): Promise<void> {
+  const rateLimit = new RateLimitTracker()
+
   try {
     core.info('Retrieving GitHub App installations...')
 
     // Get and validate inputs
-    const { appId, privateKey } = getInputs()
+    const {
+      apps,
+      client,
+      pagination,
+      filter,
+      createTokens,
+      tokenOptions,
+      listRepositories,
+      repositoryFilter,
+      requiredPermissions,
+      failOnDrift,
+      matrix,
+      jobSummary,
+      output,
+      snapshot,
+      enrich,
+      cache,
+      fixtureFile,
+      eventMode,
+      healthCheck,
+      failOnUnhealthy,
+      dispatch
+    } = getInputs()
 
-    // Create authenticated Octokit client
-    const octokit = createOctokitClient(appId, privateKey)
+    // React to a single installation event instead of listing every one
+    if (eventMode) {
+      const eventName = process.env.GITHUB_EVENT_NAME ?? ''
+      const event = await readInstallationEvent(
+        eventName,
+        process.env.GITHUB_EVENT_PATH ?? ''
+      )
+      if (event !== null) {
+        reportInstallationEvent(event, filter, output.format, matrix)
+        return
+      }
+      core.info(
+        `The ${eventName || 'unknown'} event is not an installation event; listing every installation`
+      )
+    }
 
-    // Get organization installations
-    const organizations = await getOrganizationInstallations(octokit)
+    // Replay a fixture file in place of the live API when given
+    const fixture = fixtureFile ? await readFixture(fixtureFile) : null
+    if (fixture !== null) {
+      core.info(
+        `Replaying ${fixture.installations.length} installations from ${fixtureFile}`
+      )
+      apps.push({
+        name: fixture.app.slug,
+        appId: String(fixture.app.id),
+        privateKey: ''
+      })
+    }
 
-    // Serialize to JSON
-    const jsonOutput = JSON.stringify(organizations)
+    // List the organization installations of every app
+    const results: (ListResult & { app: AppCredentials })[] = []
+    for (const app of apps) {
+      if (apps.length > 1) {
+        core.info(`Listing installations of ${app.name} (app ${app.appId})`)
+      }
+      try {
+        const result = await listInstalledOrganizations({
+          appId: app.appId,
+          privateKey: app.privateKey,
+          octokit: fixture !== null ? createFixtureClient(fixture) : undefined,
+          client,
+          pagination,
+          filter,
+          rateLimit,
+          cache
+        })
+        results.push({ ...result, app })
+      } catch (error) {
+        if (apps.length === 1) {
+          throw error
+        }
+        throw new Error(
+          `Failed to list installations of ${app.name}: ${error instanceof Error ? error.message : String(error)}`,
+          { cause: error }
+        )
+      }
+    }
+
+    // Merge the apps, listing every organization once
+    const retrieved = results.flatMap((result) => result.retrieved)
+    const installations = results.flatMap((result) => result.installations)
+    const suspended = results.flatMap((result) => result.suspended)
+    const merged = deduplicateInstallations(installations)
+    const organizations = merged.map(accountLogin)
+    const clients = new Map(
+      results.flatMap((result) =>
+        result.installations.map(
+          (installation) => [installation.id, result.octokit] as const
+        )
+      )
+    )
+    const createClient = (installationId: number): Promise<Octokit> =>
+      fixture !== null
+        ? Promise.resolve(createFixtureClient(fixture, installationId))
+        : createInstallationClient(
+            clients.get(installationId) as Octokit,
+            installationId
+          )
+    core.setOutput(
+      'cache-hit',
+      String(results.every((result) => result.cacheHit))
+    )
+    const [{ identity }] = results
+    core.setOutput('app-slug', identity.slug)
+    core.setOutput('app-name', identity.name)
+    core.setOutput('app-owner', identity.owner)
+    core.setOutput(
+      'installations-count',
+      String(
+        results.reduce(
+          (total, result) =>
+            total +
+            (result.identity.installations_count ?? result.retrieved.length),
+          0
+        )
+      )
+    )
+    if (apps.length > 1) {
+      const breakdown = buildAppBreakdown(results)
+      breakdown.forEach((entry) => {
+        core.info(
+          `${entry.name} is installed on ${entry.organizations.length} organizations`
+        )
+      })
+      await setJsonOutput('app-breakdown', breakdown)
+    }
 
-    // Set action output
-    core.setOutput('organizations', jsonOutput)
+    // Fetch the details of every organization when requested
+    const details = enrich.enabled
+      ? await getOrganizationDetails(merged, createClient, enrich.concurrency)
+      : {}
 
-    // Log final output
-    core.info(`Output: ${jsonOutput}`)
-  } catch (error) {
-    // Handle all errors and fail the action appropriately
-    if (error instanceof Error) {
-      // Check for specific error types and provide detailed messages
-      const errorMessage = error.message.toLowerCase()
-
-      if (
-        errorMessage.includes('authentication') ||
-        errorMessage.includes('credentials')
-      ) {
-        core.setFailed(`Authentication failed: ${error.message}`)
-      } else if (errorMessage.includes('rate limit')) {
-        core.setFailed(`GitHub API rate limit exceeded: ${error.message}`)
-      } else if (
-        errorMessage.includes('api') ||
-        errorMessage.includes('request failed')
-      ) {
-        core.setFailed(`GitHub API error: ${error.message}`)
-      } else {
-        core.setFailed(error.message)
+    // Serialize in the requested format, spilling to a file when too large
+    const result = formatResult(merged, output.format)
+    const exported = await exportResult(result, output)
+
+    // Set action outputs
+    if (exported.inline) {
+      core.setOutput('organizations', result)
+    }
+    if (exported.file !== null) {
+      core.setOutput('output-file', exported.file)
+    }
+    await setJsonOutput(
+      'installations',
+      installations.map((installation) =>
+        enrich.enabled
+          ? {
+              ...toInstallationSummary(installation),
+              organization: details[accountLogin(installation)] ?? null
+            }
+          : toInstallationSummary(installation)
+      )
+    )
+    await setJsonOutput(
+      'suspended-organizations',
+      suspended.map(toSuspendedOrganization)
+    )
+
+    // Build the strategy.matrix outputs, split into batches when requested
+    const { matrix: matrixOutput, batches } = buildMatrix(merged, matrix)
+    await setJsonOutput('matrix', matrixOutput)
+    await setJsonOutput('batches', batches)
+    core.setOutput('batch-count', String(batches.length))
+
+    // Compare with the snapshot of an earlier run and write a new one
+    const snapshotFile = snapshot.file || snapshot.previous
+    if (snapshotFile) {
+      const previous = snapshot.previous
+        ? await readSnapshot(snapshot.previous)
+        : []
+      const diff = diffOrganizations(previous, organizations)
+      core.info(
+        `Compared with previous snapshot: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.unchanged.length} unchanged`
+      )
+      core.setOutput('added', JSON.stringify(diff.added))
+      core.setOutput('removed', JSON.stringify(diff.removed))
+      core.setOutput('unchanged', JSON.stringify(diff.unchanged))
+      core.setOutput('changed', String(diff.changed))
+
+      await writeSnapshot(snapshotFile, organizations)
+      core.setOutput('snapshot-file', snapshotFile)
+    }
+
+    // Write the job summary report when requested
+    if (jobSummary) {
+      await writeJobSummary(retrieved, installations, filter)
+    }
+
+    // Audit granted permissions against the required ones when configured
+    if (Object.keys(requiredPermissions).length > 0) {
+      const gaps = auditPermissions(installations, requiredPermissions)
+      await setJsonOutput('permission-gaps', gaps)
+
+      if (failOnDrift && gaps.length > 0) {
+        throw new ActionError(
+          `Required permissions have not been approved by: ${gaps.map((entry) => entry.login).join(', ')}`,
+          'permission-drift'
+        )
       }
-    } else {
-      // Handle non-Error values by converting to string
-      core.setFailed(String(error))
     }
+
+    // Check that every installation can still be used when requested
+    if (healthCheck) {
+      const health = await checkInstallationHealth(
+        deduplicateInstallations([...merged, ...suspended]),
+        createClient
+      )
+      await setJsonOutput('health', health)
+
+      const unhealthy = Object.entries(health).filter(
+        ([, entry]) => entry.status !== 'healthy'
+      )
+      if (failOnUnhealthy && unhealthy.length > 0) {
+        throw new ActionError(
+          `Installations are not healthy: ${unhealthy.map(([login, entry]) => `${login} (${entry.status})`).join(', ')}`,
+          'unhealthy-installations'
+        )
+      }
+    }
+
+    // Mint scoped installation tokens when requested
+    if (createTokens) {
+      const tokens: Record<string, string> = {}
+      for (const { octokit, installations: own } of results) {
+        Object.assign(
+          tokens,
+          await createInstallationTokens(
+            octokit,
+            merged.filter((installation) => own.includes(installation)),
+            tokenOptions
+          )
+        )
+      }
+      core.setOutput('tokens', JSON.stringify(tokens))
+    }
+
+    // List the repositories each installation can access when requested
+    if (listRepositories) {
+      const repositories = await getInstallationRepositories(
+        merged,
+        createClient,
+        repositoryFilter
+      )
+      await setJsonOutput('repositories', repositories)
+    }
+
+    // Notify a repository of every organization when requested
+    if (dispatch.repository) {
+      const dispatches = await dispatchToOrganizations(
+        merged,
+        createClient,
+        dispatch
+      )
+      await setJsonOutput('dispatches', dispatches)
+
+      const failed = dispatches.filter((entry) => entry.status === 'failed')
+      if (failed.length > 0) {
+        throw new ActionError(
+          `Could not dispatch to: ${failed.map((entry) => entry.repository).join(', ')}`,
+          'dispatch-failed'
+        )
+      }
+    }
+
+    // Log final output
+    if (exported.inline) {
+      core.info(`Output: ${result}`)
+    }
+  } catch (error) {
+    // Classify the failure by its type, HTTP status and headers
+    const { code, message, hint } = classifyError(error)
+    core.setOutput('error-code', code)
+    core.setFailed(message)
+    core.info(`Hint: ${hint}`)
+  }
+
+  // Report the remaining budget even on failure so later steps can decide
+  if (rateLimit.remaining !== null) {
+    core.info(
+      `Rate limit remaining: ${rateLimit.remaining}/${rateLimit.limit ?? 'unknown'}`
+    )
+    core.setOutput('rate-limit-remaining', String(rateLimit.remaining))
   }
 }
@@ -0,0 +1,123 @@
+import * as core from '@actions/core'
+import { InputError } from './errors.js'
+import { accountLogin, accountType } from './filters.js'
+import type { Installation } from './main.js'
+
+/**
+ * The maximum number of jobs a GitHub Actions matrix can generate
+ */
+export const MATRIX_JOB_LIMIT = 256
+
+/**
+ * Settings used to split the matrix into batches.
+ */
+export interface MatrixOptions {
+  batchSize: number
+  batchIndex: number | null
+}
+
+/**
+ * Default matrix settings (a single matrix, no batching).
+ */
+export const DEFAULT_MATRIX_OPTIONS: MatrixOptions = {
+  batchSize: 0,
+  batchIndex: null
+}
+
+/**
+ * Type definition for one matrix job
+ */
+export interface MatrixEntry {
+  org: string
+  installation_id: number
+  account_type: string
+}
+
+/**
+ * Type definition for a matrix in `strategy.matrix` form
+ */
+export interface Matrix {
+  include: MatrixEntry[]
+}
+
+/**
+ * Type definition for the matrix outputs
+ */
+export interface MatrixResult {
+  matrix: Matrix
+  batches: Matrix[]
+}
+
+/**
+ * Converts an installation into a matrix job.
+ *
+ * @param installation - The installation
+ * @returns The matrix entry
+ */
+export function toMatrixEntry(installation: Installation): MatrixEntry {
+  return {
+    org: accountLogin(installation),
+    installation_id: installation.id,
+    account_type: accountType(installation)
+  }
+}
+
+/**
+ * Splits a list into chunks of the given size.
+ *
+ * @param items - The items to split
+ * @param size - The chunk size (0 keeps everything in one chunk)
+ * @returns The chunks, always at least one
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  if (size <= 0 || items.length <= size) {
+    return [items]
+  }
+
+  const chunks: T[][] = []
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size))
+  }
+  return chunks
+}
+
+/**
+ * Builds the `strategy.matrix` outputs for the installations, splitting them
+ * into batches when a batch size is set. When a batch index is set, the
+ * matrix output only holds that batch.
+ *
+ * @param installations - The installations
+ * @param options - The batch size and optional batch index
+ * @returns The matrix and the list of batches
+ * @throws InputError if the batch index does not exist
+ */
+export function buildMatrix(
+  installations: Installation[],
+  options: MatrixOptions = DEFAULT_MATRIX_OPTIONS
+): MatrixResult {
+  const batches = chunk(
+    installations.map(toMatrixEntry),
+    options.batchSize
+  ).map((include) => ({ include }))
+
+  if (options.batchIndex === null) {
+    const matrix = { include: batches.flatMap((batch) => batch.include) }
+    if (options.batchSize === 0 && matrix.include.length > MATRIX_JOB_LIMIT) {
+      core.warning(
+        `The matrix has ${matrix.include.length} jobs, more than the limit of ${MATRIX_JOB_LIMIT}; set batch-size to split it`
+      )
+    }
+    return { matrix, batches }
+  }
+
+  if (options.batchIndex >= batches.length) {
+    throw new InputError(
+      `Invalid batch-index: ${options.batchIndex} (there are ${batches.length} batches)`
+    )
+  }
+
+  core.info(
+    `Using batch ${options.batchIndex} of ${batches.length} (${batches[options.batchIndex].include.length} jobs)`
+  )
+  return { matrix: batches[options.batchIndex], batches }
+}
@@ -0,0 +1,186 @@
+import * as core from '@actions/core'
+import { mkdir, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { dirname, join } from 'path'
+import { accountLogin, accountType } from './filters.js'
+import type { Installation } from './main.js'
+
+/**
+ * Formats the result can be serialized to, the first one being the default
+ */
+export const OUTPUT_FORMATS = [
+  'json',
+  'csv',
+  'newline',
+  'yaml',
+  'markdown'
+] as const
+
+/**
+ * Type definition for an output format
+ */
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number]
+
+/**
+ * The maximum size of a single step output (1 MiB)
+ */
+export const OUTPUT_SIZE_LIMIT = 1024 * 1024
+
+/**
+ * File extensions used when the result is spilled to a file
+ */
+const EXTENSIONS: Record<OutputFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  newline: 'txt',
+  yaml: 'yaml',
+  markdown: 'md'
+}
+
+/**
+ * Settings used to serialize and write the result.
+ */
+export interface OutputOptions {
+  format: OutputFormat
+  file: string
+}
+
+/**
+ * Default output settings (a JSON array, not written to a file).
+ */
+export const DEFAULT_OUTPUT_OPTIONS: OutputOptions = {
+  format: 'json',
+  file: ''
+}
+
+/**
+ * Type definition for the result of exporting the serialized result
+ */
+export interface ExportedResult {
+  inline: boolean
+  file: string | null
+}
+
+/**
+ * Quotes a CSV field when it contains a separator, quote or line break.
+ *
+ * @param value - The field value
+ * @returns The escaped field
+ */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Serializes the organizations in the requested format. The list formats
+ * (json, newline and yaml) contain the organization logins; the table formats
+ * (csv and markdown) also contain the installation ID and account type.
+ *
+ * @param installations - The selected installations
+ * @param format - The output format
+ * @returns The serialized result
+ */
+export function formatResult(
+  installations: Installation[],
+  format: OutputFormat = DEFAULT_OUTPUT_OPTIONS.format
+): string {
+  const logins = installations.map(accountLogin)
+  const rows = installations.map((installation) => [
+    accountLogin(installation),
+    String(installation.id),
+    accountType(installation)
+  ])
+
+  switch (format) {
+    case 'csv':
+      return [['organization', 'installation_id', 'account_type'], ...rows]
+        .map((row) => row.map(csvField).join(','))
+        .join('\n')
+    case 'newline':
+      return logins.join('\n')
+    case 'yaml':
+      return logins.length === 0
+        ? '[]'
+        : logins.map((login) => `- ${JSON.stringify(login)}`).join('\n')
+    case 'markdown':
+      return [
+        '| Organization | Installation ID | Account type |',
+        '| --- | --- | --- |',
+        ...rows.map((row) => `| ${row.join(' | ')} |`)
+      ].join('\n')
+    default:
+      return JSON.stringify(logins)
+  }
+}
+
+/**
+ * Writes the serialized result to the configured file. When the result is
+ * larger than a step output can hold, it is spilled to a file (in the runner's
+ * temporary directory if no file is configured) instead.
+ *
+ * @param content - The serialized result
+ * @param options - The output format and file
+ * @returns Whether the result fits in a step output, and the file it was
+ * written to, if any
+ */
+export async function exportResult(
+  content: string,
+  options: OutputOptions = DEFAULT_OUTPUT_OPTIONS
+): Promise<ExportedResult> {
+  const size = Buffer.byteLength(content, 'utf8')
+  const inline = size <= OUTPUT_SIZE_LIMIT
+
+  const file =
+    options.file ||
+    (inline
+      ? null
+      : join(
+          process.env.RUNNER_TEMP || tmpdir(),
+          `organizations.${EXTENSIONS[options.format]}`
+        ))
+  if (!inline) {
+    core.warning(
+      `The result is ${size} bytes, more than the output limit of ${OUTPUT_SIZE_LIMIT} bytes; it is only written to ${file}`
+    )
+  }
+
+  if (file !== null) {
+    await mkdir(dirname(file), { recursive: true })
+    await writeFile(file, content, 'utf8')
+    core.info(`Wrote the result to ${file}`)
+  }
+
+  return { inline, file }
+}
+
+/**
+ * Sets a JSON step output. When the value is larger than a step output can
+ * hold, it is written to `<name>.json` in the runner's temporary directory
+ * instead, and the path is set as the `<name>-file` output.
+ *
+ * @param name - The name of the output
+ * @param value - The value to serialize
+ * @returns Whether the value fits in a step output, and the file it was
+ * spilled to, if any
+ */
+export async function setJsonOutput(
+  name: string,
+  value: unknown
+): Promise<ExportedResult> {
+  const content = JSON.stringify(value)
+  const size = Buffer.byteLength(content, 'utf8')
+  if (size <= OUTPUT_SIZE_LIMIT) {
+    core.setOutput(name, content)
+    return { inline: true, file: null }
+  }
+
+  const file = join(process.env.RUNNER_TEMP || tmpdir(), `${name}.json`)
+  core.warning(
+    `The ${name} output is ${size} bytes, more than the output limit of ${OUTPUT_SIZE_LIMIT} bytes; it is only written to ${file}`
+  )
+  await mkdir(dirname(file), { recursive: true })
+  await writeFile(file, content, 'utf8')
+  core.setOutput(`${name}-file`, file)
+
+  return { inline: false, file }
+}
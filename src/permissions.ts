@@ -0,0 +1,111 @@
+import * as core from '@actions/core'
+import { accountLogin } from './filters.js'
+import type { Installation } from './main.js'
+
+/**
+ * Permission levels, from the lowest to the highest
+ */
+export const PERMISSION_LEVELS = ['read', 'write', 'admin'] as const
+
+/**
+ * Type definition for a permission an installation is missing
+ */
+export interface PermissionGap {
+  permission: string
+  required: string
+  granted: string | null
+}
+
+/**
+ * Type definition for the permission gaps of one installation
+ */
+export interface InstallationPermissionGaps {
+  login: string
+  installation_id: number
+  gaps: PermissionGap[]
+}
+
+/**
+ * Returns the rank of a permission level, or -1 if the level is unknown.
+ *
+ * @param level - The permission level
+ * @returns The position of the level in PERMISSION_LEVELS
+ */
+function levelRank(level: string | undefined): number {
+  return (PERMISSION_LEVELS as readonly string[]).indexOf(level ?? '')
+}
+
+/**
+ * Compares granted permissions with the required ones.
+ *
+ * @param granted - The permissions granted to the installation
+ * @param required - The required permission levels
+ * @returns The permissions that are missing or granted at a lower level
+ */
+export function findPermissionGaps(
+  granted: Record<string, string | undefined>,
+  required: Record<string, string>
+): PermissionGap[] {
+  return Object.entries(required)
+    .filter(([permission, level]) => {
+      return levelRank(granted[permission]) < levelRank(level)
+    })
+    .map(([permission, level]) => ({
+      permission,
+      required: level,
+      granted: granted[permission] ?? null
+    }))
+}
+
+/**
+ * Checks every installation's granted permissions against the required
+ * permissions and logs a report of the installations that have not approved
+ * them.
+ *
+ * @param installations - The installations to audit
+ * @param required - The required permission levels
+ * @returns The installations with at least one permission gap
+ */
+export function auditPermissions(
+  installations: Installation[],
+  required: Record<string, string>
+): InstallationPermissionGaps[] {
+  const drifted = installations
+    .map((installation) => ({
+      login: accountLogin(installation),
+      installation_id: installation.id,
+      gaps: findPermissionGaps(installation.permissions ?? {}, required)
+    }))
+    .filter((entry) => entry.gaps.length > 0)
+
+  core.info(formatPermissionReport(drifted, installations.length))
+
+  return drifted
+}
+
+/**
+ * Formats the permission gaps as a human readable report.
+ *
+ * @param drifted - The installations with permission gaps
+ * @param total - The number of audited installations
+ * @returns The report
+ */
+export function formatPermissionReport(
+  drifted: InstallationPermissionGaps[],
+  total: number
+): string {
+  const lines = [
+    `Permission audit: ${drifted.length} of ${total} installations are missing required permissions`
+  ]
+
+  for (const entry of drifted) {
+    lines.push(`  ${entry.login} (installation ${entry.installation_id}):`)
+    for (const gap of entry.gaps) {
+      lines.push(
+        `    - ${gap.permission}: requires ${gap.required}, granted ${gap.granted ?? 'none'}`
+      )
+    }
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,174 @@
+import type { Octokit } from 'octokit'
+import { accountLogin } from './filters.js'
+import { actionsLogger, type Logger } from './logger.js'
+import type { Installation, InstallationClientFactory } from './main.js'
+
+/**
+ * How archived repositories and forks are handled, the first one being the
+ * default
+ */
+export const REPOSITORY_FLAG_MODES = ['include', 'exclude', 'only'] as const
+
+/**
+ * Type definition for the archived and fork handling
+ */
+export type RepositoryFlagMode = (typeof REPOSITORY_FLAG_MODES)[number]
+
+/**
+ * Settings used to select the repositories of an installation.
+ */
+export interface RepositoryFilter {
+  archived: RepositoryFlagMode
+  forks: RepositoryFlagMode
+  visibility: string[]
+  topics: string[]
+}
+
+/**
+ * Default repository filter (every accessible repository).
+ */
+export const DEFAULT_REPOSITORY_FILTER: RepositoryFilter = {
+  archived: 'include',
+  forks: 'include',
+  visibility: [],
+  topics: []
+}
+
+/**
+ * Type definition for a repository accessible to an installation
+ */
+export interface Repository {
+  full_name: string
+  archived?: boolean
+  fork?: boolean
+  visibility?: string
+  private?: boolean
+  topics?: string[]
+}
+
+/**
+ * Type definition for Octokit authenticated as an installation
+ */
+export interface OctokitWithInstallationRepositories {
+  rest: {
+    apps: {
+      listReposAccessibleToInstallation: (params?: {
+        per_page?: number
+        page?: number
+      }) => Promise<{
+        data: { total_count: number; repositories: Repository[] }
+        headers?: { link?: string }
+      }>
+    }
+  }
+}
+
+/**
+ * Checks a boolean repository property against an include/exclude/only mode.
+ *
+ * @param value - The repository property
+ * @param mode - How repositories with the property are handled
+ * @returns True if the repository passes
+ */
+function matchesFlag(value: boolean, mode: RepositoryFlagMode): boolean {
+  return mode === 'include' || (mode === 'only') === value
+}
+
+/**
+ * Checks whether a repository passes the repository filter.
+ *
+ * @param repository - The repository
+ * @param filter - The archived, fork, visibility and topic settings
+ * @returns True if the repository is kept
+ */
+export function matchesRepositoryFilter(
+  repository: Repository,
+  filter: RepositoryFilter
+): boolean {
+  const visibility =
+    repository.visibility ?? (repository.private ? 'private' : 'public')
+  const topics = repository.topics ?? []
+
+  return (
+    matchesFlag(Boolean(repository.archived), filter.archived) &&
+    matchesFlag(Boolean(repository.fork), filter.forks) &&
+    (filter.visibility.length === 0 ||
+      filter.visibility.includes(visibility)) &&
+    (filter.topics.length === 0 ||
+      filter.topics.some((topic) => topics.includes(topic)))
+  )
+}
+
+/**
+ * Retrieves every repository an installation can access, following
+ * pagination until the last page.
+ *
+ * @param octokit - An Octokit client authenticated as the installation
+ * @returns A promise that resolves to the accessible repositories
+ */
+export async function listInstallationRepositories(
+  octokit: Octokit | OctokitWithInstallationRepositories
+): Promise<Repository[]> {
+  const repositories: Repository[] = []
+  let page = 0
+  let morePages = true
+
+  while (morePages) {
+    page++
+    const { data, headers } = await (
+      octokit as OctokitWithInstallationRepositories
+    ).rest.apps.listReposAccessibleToInstallation({ per_page: 100, page })
+
+    repositories.push(...data.repositories)
+    morePages =
+      /rel="next"/.test(headers?.link ?? '') && data.repositories.length > 0
+  }
+
+  return repositories
+}
+
+/**
+ * Lists the repositories each installation can access, authenticating as
+ * every installation in turn. An installation whose token cannot be minted or
+ * whose repositories cannot be listed (an IP allow list, SAML SSO or a
+ * suspension) is reported with a warning and mapped to null, so the other
+ * organizations are still listed.
+ *
+ * @param installations - The organization installations
+ * @param createClient - Creates a client authenticated as an installation
+ * @param filter - The archived, fork, visibility and topic settings
+ * @param logger - Receives the progress messages and warnings
+ * @returns A promise that resolves to a map of organization login to the full
+ * names of its repositories, or null when they could not be listed
+ */
+export async function getInstallationRepositories(
+  installations: Installation[],
+  createClient: InstallationClientFactory<OctokitWithInstallationRepositories>,
+  filter: RepositoryFilter = DEFAULT_REPOSITORY_FILTER,
+  logger: Logger = actionsLogger
+): Promise<Record<string, string[] | null>> {
+  const result: Record<string, string[] | null> = {}
+
+  for (const installation of installations) {
+    const login = accountLogin(installation)
+    try {
+      const client = await createClient(installation.id)
+      const repositories = await listInstallationRepositories(client)
+      const selected = repositories.filter((repository) =>
+        matchesRepositoryFilter(repository, filter)
+      )
+
+      logger.info(
+        `Found ${selected.length} of ${repositories.length} repositories for ${login}`
+      )
+      result[login] = selected.map((repository) => repository.full_name)
+    } catch (error) {
+      logger.warning(
+        `Could not list the repositories of ${login}: ${error instanceof Error ? error.message : String(error)}`
+      )
+      result[login] = null
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,177 @@
+import { actionsLogger, type Logger } from './logger.js'
+
+/**
+ * Settings used to retry transient API failures.
+ */
+export interface RetryOptions {
+  maxRetries: number
+  baseDelaySeconds: number
+  maxWaitSeconds: number
+}
+
+/**
+ * Default retry settings (three retries starting at one second, never waiting
+ * longer than ten minutes for a rate limit to reset).
+ */
+export const DEFAULT_RETRY: RetryOptions = {
+  maxRetries: 3,
+  baseDelaySeconds: 1,
+  maxWaitSeconds: 600
+}
+
+/**
+ * GitHub recommends waiting at least a minute after a secondary rate limit
+ * response that does not include a `retry-after` header.
+ */
+const SECONDARY_RATE_LIMIT_WAIT_SECONDS = 60
+
+/**
+ * Tracks the rate limit budget reported by the most recent API response.
+ */
+export class RateLimitTracker {
+  remaining: number | null = null
+  limit: number | null = null
+  reset: number | null = null
+
+  /**
+   * Records the rate limit headers of a response, if present.
+   *
+   * @param headers - The response headers
+   */
+  update(headers: Headers): void {
+    const remaining = headers.get('x-ratelimit-remaining')
+    if (remaining === null) {
+      return
+    }
+
+    this.remaining = Number(remaining)
+    this.limit = Number(headers.get('x-ratelimit-limit') ?? NaN) || null
+    this.reset = Number(headers.get('x-ratelimit-reset') ?? NaN) || null
+  }
+}
+
+/**
+ * Type definition for the sleep function used between attempts
+ */
+export type Sleep = (milliseconds: number) => Promise<void>
+
+/**
+ * Waits for the given number of milliseconds.
+ *
+ * @param milliseconds - The time to wait
+ * @returns Resolves after the delay
+ */
+const defaultSleep: Sleep = (milliseconds) =>
+  new Promise((resolve) => setTimeout(resolve, milliseconds))
+
+/**
+ * Determines how long to wait before retrying a failed response, or whether
+ * the response should not be retried at all.
+ *
+ * @param response - The failed response
+ * @param attempt - The number of the attempt that failed, starting at 1
+ * @param options - The retry settings
+ * @param now - The current time in milliseconds
+ * @returns The delay in seconds, or null if the response is not retryable
+ */
+export async function getRetryDelay(
+  response: Response,
+  attempt: number,
+  options: RetryOptions,
+  now: number = Date.now()
+): Promise<number | null> {
+  const backoff = options.baseDelaySeconds * 2 ** (attempt - 1)
+
+  if (response.status >= 500) {
+    return backoff
+  }
+  if (response.status !== 403 && response.status !== 429) {
+    return null
+  }
+
+  const retryAfter = response.headers.get('retry-after')
+  if (retryAfter !== null && !Number.isNaN(Number(retryAfter))) {
+    return Math.max(Number(retryAfter), backoff)
+  }
+
+  const reset = response.headers.get('x-ratelimit-reset')
+  if (response.headers.get('x-ratelimit-remaining') === '0' && reset) {
+    return Math.max(Math.ceil(Number(reset) - now / 1000), 0) + 1
+  }
+
+  // Secondary rate limits and abuse detection are only named in the body
+  const body = (await response.clone().text()).toLowerCase()
+  if (body.includes('secondary rate limit') || body.includes('abuse')) {
+    return Math.max(SECONDARY_RATE_LIMIT_WAIT_SECONDS, backoff)
+  }
+
+  return null
+}
+
+/**
+ * Wraps a fetch implementation so that transient failures (5xx responses,
+ * rate limits, abuse detection and network errors) are retried with
+ * exponential backoff, honoring `retry-after` and `x-ratelimit-reset`. The
+ * remaining rate limit budget is logged for every request.
+ *
+ * @param baseFetch - The fetch implementation to wrap
+ * @param options - The retry settings
+ * @param tracker - Receives the rate limit headers of every response
+ * @param sleep - Waits between attempts
+ * @param logger - Receives the retry warnings and per-request debug lines
+ * @returns The retrying fetch function
+ */
+export function createRetryingFetch(
+  baseFetch: typeof fetch,
+  options: RetryOptions = DEFAULT_RETRY,
+  tracker: RateLimitTracker = new RateLimitTracker(),
+  sleep: Sleep = defaultSleep,
+  logger: Logger = actionsLogger
+): typeof fetch {
+  return async (input, init) => {
+    const method = init?.method ?? 'GET'
+    const url = input instanceof Request ? input.url : String(input)
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response
+      try {
+        response = await baseFetch(input, init)
+      } catch (error) {
+        if (attempt > options.maxRetries) {
+          throw error
+        }
+        const delay = options.baseDelaySeconds * 2 ** (attempt - 1)
+        logger.warning(
+          `${method} ${url} failed: ${error instanceof Error ? error.message : String(error)}; retrying in ${delay}s (attempt ${attempt} of ${options.maxRetries + 1})`
+        )
+        await sleep(delay * 1000)
+        continue
+      }
+
+      tracker.update(response.headers)
+      logger.debug(
+        `${method} ${url} returned ${response.status} (rate limit remaining: ${tracker.remaining ?? 'unknown'}/${tracker.limit ?? 'unknown'})`
+      )
+
+      if (response.ok || attempt > options.maxRetries) {
+        return response
+      }
+
+      const delay = await getRetryDelay(response, attempt, options)
+      if (delay === null) {
+        return response
+      }
+      if (delay > options.maxWaitSeconds) {
+        logger.warning(
+          `${method} ${url} returned ${response.status}; not retrying because the required wait of ${delay}s exceeds ${options.maxWaitSeconds}s`
+        )
+        return response
+      }
+
+      logger.warning(
+        `${method} ${url} returned ${response.status}; retrying in ${delay}s (attempt ${attempt} of ${options.maxRetries + 1})`
+      )
+      await sleep(delay * 1000)
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import * as core from '@actions/core'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+import { InputError } from './errors.js'
+
+/**
+ * Settings used to compare the result with an earlier run.
+ */
+export interface SnapshotOptions {
+  previous: string
+  file: string
+}
+
+/**
+ * Default snapshot settings (no comparison).
+ */
+export const DEFAULT_SNAPSHOT_OPTIONS: SnapshotOptions = {
+  previous: '',
+  file: ''
+}
+
+/**
+ * Type definition for a snapshot file
+ */
+export interface Snapshot {
+  created_at: string
+  organizations: string[]
+}
+
+/**
+ * Type definition for the differences between two snapshots
+ */
+export interface SnapshotDiff {
+  added: string[]
+  removed: string[]
+  unchanged: string[]
+  changed: boolean
+}
+
+/**
+ * Checks whether a value is an array of strings.
+ *
+ * @param value - The value to check
+ * @returns True if every element is a string
+ */
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((entry) => typeof entry === 'string')
+  )
+}
+
+/**
+ * Reads the organizations of an earlier run. Both snapshot files written by
+ * the action and plain JSON arrays (such as a saved `organizations` output)
+ * are accepted. A missing file is treated as an empty snapshot, so the first
+ * scheduled run reports every organization as added.
+ *
+ * @param path - The path of the snapshot file
+ * @returns A promise that resolves to the organization logins
+ * @throws InputError if the file is not a valid snapshot
+ */
+export async function readSnapshot(path: string): Promise<string[]> {
+  let content: string
+  try {
+    content = await readFile(path, 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      core.info(`No previous snapshot found at ${path}`)
+      return []
+    }
+    throw error
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch (error) {
+    throw new InputError(
+      `Invalid previous-snapshot: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  const organizations = isStringArray(parsed)
+    ? parsed
+    : (parsed as Partial<Snapshot> | null)?.organizations
+  if (!isStringArray(organizations)) {
+    throw new InputError(
+      'Invalid previous-snapshot: expected a JSON array of organizations or an object with an organizations array'
+    )
+  }
+
+  return organizations
+}
+
+/**
+ * Writes a snapshot of the organizations for the next run to compare with.
+ *
+ * @param path - The path of the snapshot file
+ * @param organizations - The organization logins
+ * @param now - The time the snapshot is taken
+ * @returns Resolves when the file is written
+ */
+export async function writeSnapshot(
+  path: string,
+  organizations: string[],
+  now: Date = new Date()
+): Promise<void> {
+  const snapshot: Snapshot = {
+    created_at: now.toISOString(),
+    organizations
+  }
+
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, `${JSON.stringify(snapshot, null, 2)}\n`, 'utf8')
+  core.info(
+    `Wrote snapshot of ${organizations.length} organizations to ${path}`
+  )
+}
+
+/**
+ * Compares the organizations of an earlier run with the current ones. Logins
+ * are compared case-insensitively, as GitHub logins are.
+ *
+ * @param previous - The organization logins of the earlier run
+ * @param current - The current organization logins
+ * @returns The added, removed and unchanged organizations
+ */
+export function diffOrganizations(
+  previous: string[],
+  current: string[]
+): SnapshotDiff {
+  const before = new Set(previous.map((login) => login.toLowerCase()))
+  const after = new Set(current.map((login) => login.toLowerCase()))
+
+  const added = current.filter((login) => !before.has(login.toLowerCase()))
+  const removed = previous.filter((login) => !after.has(login.toLowerCase()))
+  const unchanged = current.filter((login) => before.has(login.toLowerCase()))
+
+  return {
+    added,
+    removed,
+    unchanged,
+    changed: added.length > 0 || removed.length > 0
+  }
+}
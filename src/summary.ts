@@ -0,0 +1,135 @@
+import * as core from '@actions/core'
+import {
+  DEFAULT_FILTER,
+  accountLogin,
+  accountType,
+  getSkipReason,
+  type InstallationFilter
+} from './filters.js'
+import type { Installation } from './main.js'
+
+/**
+ * Escapes the characters that have a meaning in HTML, as the summary table
+ * cells and details are rendered as raw HTML.
+ *
+ * @param text - The text to escape
+ * @returns The escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Describes the suspension state of an installation.
+ *
+ * @param installation - The installation
+ * @returns "No", or when and by whom the installation was suspended
+ */
+function describeSuspension(installation: Installation): string {
+  if (!installation.suspended_at) {
+    return 'No'
+  }
+  return `Since ${installation.suspended_at} by ${installation.suspended_by?.login ?? 'unknown'}`
+}
+
+/**
+ * Counts the retrieved and selected installations by account type.
+ *
+ * @param installations - Every retrieved installation
+ * @param selected - The installations that passed the filter
+ * @returns The table rows, one per account type
+ */
+export function countByAccountType(
+  installations: Installation[],
+  selected: Installation[]
+): { type: string; total: number; selected: number }[] {
+  const counts = new Map<string, { total: number; selected: number }>()
+
+  for (const installation of installations) {
+    const type = accountType(installation) || 'Unknown'
+    const count = counts.get(type) ?? { total: 0, selected: 0 }
+    count.total++
+    if (selected.includes(installation)) {
+      count.selected++
+    }
+    counts.set(type, count)
+  }
+
+  return [...counts].map(([type, count]) => ({ type, ...count }))
+}
+
+/**
+ * Writes a job summary report of the installations: totals by account type, a
+ * table of the selected organizations and a collapsible list of the accounts
+ * that were filtered out, with the reason.
+ *
+ * @param installations - Every retrieved installation
+ * @param selected - The installations that passed the filter
+ * @param filter - The filter used to select the installations
+ * @returns Resolves when the summary is written
+ */
+export async function writeJobSummary(
+  installations: Installation[],
+  selected: Installation[],
+  filter: InstallationFilter = DEFAULT_FILTER
+): Promise<void> {
+  const filteredOut = installations.filter(
+    (installation) => !selected.includes(installation)
+  )
+
+  core.summary
+    .addHeading('GitHub App installations')
+    .addRaw(
+      `Selected ${selected.length} of ${installations.length} installations.`,
+      true
+    )
+    .addHeading('Totals by account type', 3)
+    .addTable([
+      [
+        { data: 'Account type', header: true },
+        { data: 'Installations', header: true },
+        { data: 'Selected', header: true }
+      ],
+      ...countByAccountType(installations, selected).map((count) => [
+        escapeHtml(count.type),
+        String(count.total),
+        String(count.selected)
+      ])
+    ])
+    .addHeading('Organizations', 3)
+    .addTable([
+      [
+        { data: 'Organization', header: true },
+        { data: 'Installation ID', header: true },
+        { data: 'Repository selection', header: true },
+        { data: 'Created', header: true },
+        { data: 'Suspended', header: true }
+      ],
+      ...selected.map((installation) => [
+        escapeHtml(accountLogin(installation)),
+        String(installation.id),
+        installation.repository_selection ?? '',
+        installation.created_at ?? '',
+        escapeHtml(describeSuspension(installation))
+      ])
+    ])
+
+  if (filteredOut.length > 0) {
+    const items = filteredOut.map((installation) => {
+      const login =
+        accountLogin(installation) || `installation ${installation.id}`
+      const reason = getSkipReason(installation, filter) ?? 'filtered out'
+      return `<li><code>${escapeHtml(login)}</code>: ${escapeHtml(reason)}</li>`
+    })
+    core.summary.addDetails(
+      `Filtered out accounts (${filteredOut.length})`,
+      `<ul>${items.join('')}</ul>`
+    )
+  }
+
+  await core.summary.write()
+}
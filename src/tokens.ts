@@ -0,0 +1,114 @@
+import * as core from '@actions/core'
+import type { Octokit } from 'octokit'
+import { accountLogin } from './filters.js'
+import { actionsLogger, type Logger } from './logger.js'
+import type { Installation } from './main.js'
+
+/**
+ * Settings used to narrow the installation access tokens.
+ */
+export interface TokenOptions {
+  repositories: string[]
+  permissions: Record<string, string>
+}
+
+/**
+ * Type definition for Octokit with the installation token API
+ */
+interface OctokitWithInstallationTokens {
+  rest: {
+    apps: {
+      createInstallationAccessToken: (params: {
+        installation_id: number
+        repositories?: string[]
+        permissions?: Record<string, string>
+      }) => Promise<{ data: { token: string; expires_at: string } }>
+    }
+  }
+}
+
+/**
+ * Selects the repositories a token for an organization should be limited to.
+ * Plain repository names apply to every organization, while `owner/repo`
+ * entries only apply to the matching organization.
+ *
+ * @param login - The organization login
+ * @param repositories - The configured repository entries
+ * @returns The repository names for this organization
+ */
+export function repositoriesForOrganization(
+  login: string,
+  repositories: string[]
+): string[] {
+  return repositories.flatMap((entry) => {
+    const separator = entry.indexOf('/')
+    if (separator === -1) {
+      return [entry]
+    }
+
+    const owner = entry.slice(0, separator)
+    return owner.toLowerCase() === login.toLowerCase()
+      ? [entry.slice(separator + 1)]
+      : []
+  })
+}
+
+/**
+ * Creates an installation access token for each organization installation.
+ * Every token is registered as a secret so it is masked in the logs. An
+ * organization whose token cannot be created (an IP allow list, SAML SSO or a
+ * suspension) is reported with a warning and left out, so the other
+ * organizations still get their tokens.
+ *
+ * @param octokit - An Octokit client authenticated as the GitHub App
+ * @param installations - The organization installations
+ * @param options - Repositories and permissions to narrow the tokens to
+ * @param logger - Receives the progress messages and warnings
+ * @returns A promise that resolves to a map of organization login to token
+ */
+export async function createInstallationTokens(
+  octokit: Octokit | OctokitWithInstallationTokens,
+  installations: Installation[],
+  options: TokenOptions,
+  logger: Logger = actionsLogger
+): Promise<Record<string, string>> {
+  const tokens: Record<string, string> = {}
+
+  for (const installation of installations) {
+    const login = accountLogin(installation)
+    const repositories = repositoriesForOrganization(
+      login,
+      options.repositories
+    )
+
+    // Never widen a token: skip organizations none of the repositories belong to
+    if (options.repositories.length > 0 && repositories.length === 0) {
+      logger.info(`Skipping token for ${login}: no matching repositories`)
+      continue
+    }
+
+    try {
+      const { data } = await (
+        octokit as OctokitWithInstallationTokens
+      ).rest.apps.createInstallationAccessToken({
+        installation_id: installation.id,
+        ...(repositories.length > 0 && { repositories }),
+        ...(Object.keys(options.permissions).length > 0 && {
+          permissions: options.permissions
+        })
+      })
+
+      core.setSecret(data.token)
+      tokens[login] = data.token
+      logger.debug(`Created token for ${login} (expires ${data.expires_at})`)
+    } catch (error) {
+      logger.warning(
+        `Could not create an installation token for ${login}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  logger.info(`Created ${Object.keys(tokens).length} installation tokens`)
+
+  return tokens
+}